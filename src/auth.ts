@@ -0,0 +1,133 @@
+import { timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { Context } from 'koa';
+import { NODE_SECRET_HEADER, WEBDRIVER_ERRORS } from './constants';
+import { setHttpResponse } from './controllers';
+import { logger } from './logger';
+import { AuthConfiguration, RequestHandler } from './types';
+
+export interface DirectAccessRoute {
+  methods: string[];
+  path: RegExp;
+  role: 'client' | 'admin';  // the credential required by the route
+}
+
+function safeEqual(a: string, b: string) {
+  const [bufA, bufB] = [Buffer.from(a), Buffer.from(b)];
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function getHeader(headers: IncomingHttpHeaders, name: string) {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Authenticate requests with the credentials defined in configuration:
+ *   tokens/users: bearer tokens and basic auth accounts of webdriver clients
+ *   adminToken: required by management endpoints, e.g. /terminate, /provision, /auto-cmd, /register
+ *   nodeSecret: attached by hub when it forwards requests to nodes, nodes reject requests without it
+ * Requests with a valid node secret are trusted as they are forwarded by hub or sent by a node of the same fleet.
+ * Everything is open if no credential is configured.
+ */
+export class Auth {
+
+  constructor(
+    private readonly config?: AuthConfiguration,
+  ) { }
+
+  /**
+   * Headers to be attached to requests between hub and nodes.
+   */
+  get nodeHeaders(): { [key: string]: string } {
+    return this.config?.nodeSecret ? { [NODE_SECRET_HEADER]: this.config.nodeSecret } : {};
+  }
+
+  hasNodeSecret(headers: IncomingHttpHeaders) {
+    const secret = getHeader(headers, NODE_SECRET_HEADER);
+    return !!this.config?.nodeSecret && !!secret && safeEqual(secret, this.config.nodeSecret);
+  }
+
+  isClient(headers: IncomingHttpHeaders) {
+    const { tokens = [], users = [] } = this.config || {};
+    if (!tokens.length && !users.length) return true;
+    if (this.hasNodeSecret(headers) || this.isAdminToken(headers)) return true;
+
+    const [scheme, credentials] = (getHeader(headers, 'authorization') || '').split(/\s+/, 2);
+    if (!credentials) return false;
+    if ('bearer' === scheme.toLowerCase()) {
+      return tokens.some(token => safeEqual(credentials, token));
+    }
+    if ('basic' === scheme.toLowerCase()) {
+      const decoded = Buffer.from(credentials, 'base64').toString('utf-8');
+      return users.some(user => safeEqual(decoded, `${user.username}:${user.password}`));
+    }
+    return false;
+  }
+
+  isAdmin(headers: IncomingHttpHeaders) {
+    if (!this.config?.adminToken) return this.isClient(headers);
+    return this.hasNodeSecret(headers) || this.isAdminToken(headers);
+  }
+
+  /**
+   * Requests to a node that lack of node secret are rejected when node secret is configured.
+   */
+  isNodeRequest(headers: IncomingHttpHeaders) {
+    return !this.config?.nodeSecret || this.hasNodeSecret(headers);
+  }
+
+  requireNodeSecret: RequestHandler = async (ctx, next) => {
+    if (!this.isNodeRequest(ctx.request.headers)) return unauthorized(ctx, `node secret is missing or invalid`);
+    await next();
+  }
+
+  /**
+   * Same as requireNodeSecret, except the direct access routes (e.g. metrics) that are protected by their own credentials.
+   * A route is exempted only when the credential it requires is configured, as node secret is the only protection otherwise.
+   */
+  requireNodeSecretExcept(routes: DirectAccessRoute[]): RequestHandler {
+    return async (ctx, next) => {
+      const route = routes.find(route => route.methods.includes(ctx.method) && route.path.test(ctx.path));
+      if (route && this.hasCredentialsFor(route.role)) return await next();
+      await this.requireNodeSecret(ctx, next);
+    }
+  }
+
+  requireClient: RequestHandler = async (ctx, next) => {
+    if (!this.isClient(ctx.request.headers)) return unauthorized(ctx, `credentials are missing or invalid`);
+    await next();
+  }
+
+  requireAdmin: RequestHandler = async (ctx, next) => {
+    if (!this.isAdmin(ctx.request.headers)) return unauthorized(ctx, `admin token is missing or invalid`);
+    await next();
+  }
+
+  private hasCredentialsFor(role: 'client' | 'admin') {
+    const { tokens = [], users = [], adminToken } = this.config || {};
+    return tokens.length > 0 || users.length > 0 || ('admin' === role && !!adminToken);
+  }
+
+  private isAdminToken(headers: IncomingHttpHeaders) {
+    const adminToken = this.config?.adminToken;
+    if (!adminToken) return false;
+    const [scheme, credentials] = (getHeader(headers, 'authorization') || '').split(/\s+/, 2);
+    return 'bearer' === scheme.toLowerCase() && !!credentials && safeEqual(credentials, adminToken);
+  }
+}
+
+const unauthorized = (ctx: Context, message: string) => {
+  logger.warn(`reject unauthorized request: ${message}`);
+  setHttpResponse(ctx, {
+    status: WEBDRIVER_ERRORS.UNAUTHORIZED.code,
+    headers: { 'WWW-Authenticate': 'Bearer, Basic realm="selenium-federation"' },
+    body: {
+      value: {
+        ...WEBDRIVER_ERRORS.UNAUTHORIZED,
+        message,
+        stacktrace: '',
+      },
+    },
+  });
+}
@@ -1,37 +1,182 @@
 import yargs from 'yargs/yargs';
-import { parse } from 'yaml';
-import { Configuration, configurationSchema } from './types';
-import { getFileNameFromUrl, isHttpUrl, readPathOrUrl, runProvisionTask, saveUrlToFile } from './utils';
+import { parse, stringify } from 'yaml';
+import { ValidationError } from 'yup';
+import { Configuration, configurationSchema, ProvisionTask } from './types';
+import { getFileNameFromUrl, getW3CPlatformName, isHttpUrl, readPathOrUrl, saveUrlToFile } from './utils';
+import { getProvisionTaskSkipReason, runProvisionTask } from './provision';
+import { resolveWebdriver } from './resolver';
 import * as fs from 'fs';
-import { join } from 'path';
+import { delimiter, dirname, isAbsolute, join, resolve } from 'path';
 import { createHash } from 'crypto';
 import chalk from 'chalk';
+import _ from 'lodash';
 
 const jsonStringify = require('json-stringify-deterministic');
 const log = console.log;
 
 export const argv = yargs(process.argv.slice(2)).
   usage('start selenium-federation service').
+  command('validate', 'validate configuration and print the resolved configuration without starting service').
+  example('$0 -c config.yaml', 'start service').
+  example('$0 validate -c config.yaml --dry-run', 'validate configuration and show provision tasks to run').
   options({
     c: { type: 'string', demandOption: true, description: 'configuration, it can be loaded from a local file or an http(s) URL' },
+    'dry-run': { type: 'boolean', default: false, description: 'show provision tasks that would run or be skipped, service will not be started' },
   }).argv;
 
 
 let _config: Configuration;
 
-export async function getAndInitConfig(): Promise<Configuration> {
-  if (!_config) {
-    const pathOrUrl = argv.c;
+// fields that cannot be changed without restarting the process
+const NON_RELOADABLE_FIELDS: (keyof Configuration)[] = ['role', 'port', 'host', 'uuid', 'tmpFolder', 'auth', 'tls', 'startTime', 'version'];
 
-    log(chalk.blue.bold(`> read config from: ${pathOrUrl}`));
-    const data = await readPathOrUrl(pathOrUrl, { encoding: 'utf-8' });
-    log(chalk.green(data));
+/**
+ * Load configuration file with the following features:
+ *   ${ENV_VAR} and ${ENV_VAR:-default} in string values are replaced with environment variables, use $${...} to escape
+ *   unset variables without default are replaced with empty strings and collected into unsetEnvs
+ *   extends (or include): path or url (or a list of them) of base configurations, relative path is resolved against current file
+ *   platforms: overrides keyed by platformName, e.g. platforms.windows is merged when running on windows
+ * Objects are merged deeply while arrays are replaced.
+ */
+async function loadConfigFile(pathOrUrl: string, visited: string[] = [], unsetEnvs: string[] = []): Promise<any> {
+  pathOrUrl = isHttpUrl(pathOrUrl) ? pathOrUrl : resolve(pathOrUrl);
+  if (visited.includes(pathOrUrl)) {
+    throw Error(`circular extends detected: ${[...visited, pathOrUrl].join(' -> ')}`);
+  }
+  log(chalk.blue.bold(`> read config from: ${pathOrUrl}`));
+  const data = await readPathOrUrl(pathOrUrl, { encoding: 'utf-8' });
+  log(chalk.green(data));  // print before interpolation to avoid exposing secrets
 
-    _config = configurationSchema.validateSync({
-      ...parse(data),
-      version: require('../package.json').version,
-      startTime: new Date().toString(),
+  const { extends: extendsFrom, include, ...config } = interpolateEnvs(parse(data) || {}, '', unsetEnvs);
+  let merged = {};
+  for (const base of _.castArray(extendsFrom || include || [])) {
+    merged = mergeConfig(merged, await loadConfigFile(resolvePathOrUrl(pathOrUrl, base), [...visited, pathOrUrl], unsetEnvs));
+  }
+  return mergeConfig(merged, config);
+}
+
+/**
+ * Read configuration before validation, the environment variables that are not set (and have no default value)
+ * are collected into unsetEnvs with their paths.
+ */
+async function readRawConfig(pathOrUrl: string, unsetEnvs: string[] = []) {
+  const { platforms, ...config } = await loadConfigFile(pathOrUrl, [], unsetEnvs);
+  const platformName = config.platformName || getW3CPlatformName();
+  return {
+    ...mergeConfig(config, platforms?.[platformName] || {}),
+    version: require('../package.json').version,
+    startTime: new Date().toString(),
+  };
+}
+
+function mergeConfig(base: any, override: any) {
+  return _.mergeWith({}, base, override, (_a: any, b: any) => Array.isArray(b) ? b : undefined);
+}
+
+function resolvePathOrUrl(from: string, pathOrUrl: string) {
+  if (isHttpUrl(pathOrUrl) || isAbsolute(pathOrUrl)) return pathOrUrl;
+  if (isHttpUrl(from)) return new URL(pathOrUrl, from).href;
+  return resolve(dirname(from), pathOrUrl);
+}
+
+function interpolateEnvs(value: any, path: string, unsetEnvs: string[]): any {
+  if ('string' === typeof value) {
+    return value.replace(/\$(\$)?\{(\w+)(?::-([^}]*))?\}/g, (match, escaped, name, defaultValue) => {
+      if (escaped) return match.slice(1);
+      const env = process.env[name];
+      if (undefined !== env && '' !== env) return env;
+      if (undefined === defaultValue) unsetEnvs.push(`${path || '<root>'}: environment variable ${name} is not set`);
+      return defaultValue || '';
     });
+  }
+  if (Array.isArray(value)) return value.map((item, i) => interpolateEnvs(item, `${path}[${i}]`, unsetEnvs));
+  if (_.isPlainObject(value)) return _.mapValues(value, (v, key) => interpolateEnvs(v, path ? `${path}.${key}` : key, unsetEnvs));
+  return value;
+}
+
+async function readConfig(pathOrUrl: string): Promise<Configuration> {
+  const unsetEnvs: string[] = [];
+  const raw = await readRawConfig(pathOrUrl, unsetEnvs);
+  unsetEnvs.forEach(error => log(chalk.yellow(`>> ${error}`)));
+  for (const path of findUnknownFields(configurationSchema, raw)) {
+    log(chalk.yellow(`>> ${path}: unknown field is ignored`));
+  }
+  return configurationSchema.validateSync(raw);
+}
+
+/**
+ * Find the fields that are not defined in schema, which are ignored by yup silently, e.g. typo like maxSesions.
+ * Objects without fields (e.g. command.envs) or with meta allowUnknown (e.g. defaultCapabilities) accept any fields.
+ */
+function findUnknownFields(schema: any, value: any, path: string = ''): string[] {
+  if ('lazy' === schema?.type) return findUnknownFields(schema.resolve({ value }), value, path);
+  if ('array' === schema?.type && Array.isArray(value) && schema.innerType) {
+    return _.flatMap(value, (item, i) => findUnknownFields(schema.innerType, item, `${path}[${i}]`));
+  }
+  if ('object' !== schema?.type || !_.isPlainObject(value)) return [];
+  const fields = schema.fields || {};
+  if (_.isEmpty(fields) || schema.describe().meta?.allowUnknown) return [];
+  return _.flatMap(Object.keys(value), key => {
+    const fieldPath = path ? `${path}.${key}` : key;
+    return fields[key] ? findUnknownFields(fields[key], value[key], fieldPath) : [fieldPath];
+  });
+}
+
+function getProvisionTaskDigest(task: ProvisionTask, provisionFolder: string) {
+  const taskString = jsonStringify(task);
+  const taskDigest = createHash('sha256').update(taskString).digest().toString('hex');
+  const taskDigestFile = join(provisionFolder, `provision-task-${taskDigest}.sha256.digest`);
+  return { taskString, taskDigestFile };
+}
+
+// webdrivers downloaded for driver configurations, so that unchanged drivers are not downloaded again on reload
+const downloadedWebdrivers = new Map<string, string>();
+
+async function downloadWebdrivers(config: Configuration) {
+  const webdriverFolder = join(config.tmpFolder, 'webdrivers');
+  log(chalk.blue.bold(`> download webdrivers...`));
+  for (const driver of config.drivers) {
+    if (!isHttpUrl(driver.command.path)) continue;
+    const webdriverUrl = driver.command.path;
+    // uuid is generated on every read if it is not set explicitly
+    const driverKey = JSON.stringify(_.omit(driver, 'uuid'));
+    const downloaded = downloadedWebdrivers.get(driverKey);
+    if (downloaded && fs.existsSync(downloaded)) {
+      log(chalk.yellow(`>> driver is not changed, skip downloading ${webdriverUrl}`));
+      driver.command.path = downloaded;
+      continue;
+    }
+    const fileName = getFileNameFromUrl(webdriverUrl);
+    const filePath = join(webdriverFolder, fileName);
+    if (fs.existsSync(filePath)) {
+      log(chalk.yellow(`>> file ${filePath} already exists, will be overwritten with ${webdriverUrl}`));
+    }
+    log(chalk.green(`>> start to download ${webdriverUrl} to ${filePath}`));
+    await saveUrlToFile(webdriverUrl, filePath);
+    await fs.promises.chmod(filePath, 0o755);  // grant execution permission
+    log(chalk.green(`>> success to download ${filePath}`));
+    downloadedWebdrivers.set(driverKey, filePath);
+    driver.command.path = filePath;
+  }
+}
+
+async function resolveWebdrivers(config: Configuration) {
+  const webdriverFolder = join(config.tmpFolder, 'webdrivers');
+  for (const driver of config.drivers) {
+    if (!driver.resolver) continue;
+    log(chalk.blue.bold(`> resolve webdriver for ${driver.browserName}...`));
+    try {
+      driver.command.path = await resolveWebdriver(driver, webdriverFolder);
+      log(chalk.green(`>> resolved: ${driver.command.path}`));
+    } catch (e) {
+      log(chalk.yellow(`>> fail to resolve webdriver, use ${driver.command.path} instead: ${e.message}`));
+    }
+  }
+}
+
+export async function getAndInitConfig(): Promise<Configuration> {
+  if (!_config) {
+    _config = await readConfig(argv.c);
 
     log(chalk.blue.bold(`> prepare tmpFolder: ${_config.tmpFolder}`));
     const webdriverFolder = join(_config.tmpFolder, 'webdrivers');
@@ -47,41 +192,163 @@ export async function getAndInitConfig(): Promise<Configuration> {
       await fs.promises.mkdir(_config.fileServer.root, { recursive: true });
     }
 
-    log(chalk.blue.bold(`> download webdrivers...`));
-    for (const driver of _config.drivers) {
-      if (!isHttpUrl(driver.command.path)) continue;
-      const webdriverUrl = driver.command.path;
-      const fileName = getFileNameFromUrl(webdriverUrl);
-      const filePath = join(webdriverFolder, fileName);
-      if (fs.existsSync(filePath)) {
-        log(chalk.yellow(`>> file ${filePath} already exists, will be overwritten with ${webdriverUrl}`));
-      }
-      log(chalk.green(`>> start to download ${webdriverUrl} to ${filePath}`));
-      await saveUrlToFile(webdriverUrl, filePath);
-      await fs.promises.chmod(filePath, 0o755);  // grant execution permission
-      log(chalk.green(`>> success to download ${filePath}`));
-      driver.command.path = filePath;
-    }
+    await downloadWebdrivers(_config);
+    await resolveWebdrivers(_config);
 
     log(chalk.blue.bold('> execute provision tasks...'));
     for (const task of _config.provision.tasks) {
-      const taskString = jsonStringify(task);
-      const taskDigest = createHash('sha256').update(taskString).digest().toString('hex');
-      const taskDigestFile = join(provisionFolder, `provision-task-${taskDigest}.sha256.digest`);
+      const { taskString, taskDigestFile } = getProvisionTaskDigest(task, provisionFolder);
       if (fs.existsSync(taskDigestFile) && !task.neverSkip) {
         log(chalk.yellow(`>> detect ${taskDigestFile}, skip task: ${taskString}`));
         log(chalk.yellowBright(`>>> you may set neverSkip to true or remove ${taskDigestFile} to run this task`));
         continue;
       }
       log(chalk.green(`>> start to run task: ${taskString}`));
-      const result = await runProvisionTask(task, { downloadFolder });
+      const result = await runProvisionTask(task, { downloadFolder, platformName: _config.platformName, tags: _config.tags });
       if (!result.isSuccess) {
-        log(chalk.redBright(`>> fail to run task, exit selenium-federation`));
+        log(chalk.redBright(`>> fail to run task at step ${result.failedStep}: ${result.error}`));
+        for (const step of result.steps) {
+          const last = step.attempts?.[step.attempts.length - 1];
+          log(chalk.redBright(`>>> ${step.step}: ${step.status}${step.message ? ` (${step.message})` : ''}`));
+          if (last && 'failed' === step.status) log(chalk.red(last.stderr || last.stdout));
+        }
+        log(chalk.redBright(`>> exit selenium-federation`));
         process.exit(1);
       }
+      if (result.skipped) {
+        log(chalk.yellow(`>> skip task: ${result.skipped}`));
+        continue;
+      }
       log(chalk.green(`>> create digest file ${taskDigestFile} to skip this task next time`));
       await fs.promises.writeFile(taskDigestFile, taskString);
     }
   }
   return _config;
 }
+
+/**
+ * Read and validate configuration again, the fields that cannot be reloaded are kept as they are.
+ * Provision tasks are not executed during reload.
+ */
+export async function reloadConfig(): Promise<Configuration> {
+  const current = await getAndInitConfig();
+  const config = await readConfig(argv.c);
+  const keepCurrent = <K extends keyof Configuration>(field: K) => {
+    if (undefined !== config[field] && !_.isEqual(config[field], current[field]) && !['uuid', 'startTime'].includes(field)) {
+      log(chalk.yellow(`>> ${field} cannot be changed without restarting, ignored`));
+    }
+    config[field] = current[field];
+  };
+  NON_RELOADABLE_FIELDS.forEach(keepCurrent);
+  await downloadWebdrivers(config);
+  await resolveWebdrivers(config);
+  return config;
+}
+
+/**
+ * Validate configuration without starting service, return true if it is valid.
+ * All schema errors are reported with their paths, and the binaries of drivers are checked.
+ */
+export async function validateConfig(pathOrUrl: string, options: { dryRun: boolean }): Promise<boolean> {
+  let raw: any;
+  const unsetEnvs: string[] = [];
+  try {
+    raw = await readRawConfig(pathOrUrl, unsetEnvs);
+  } catch (e) {
+    log(chalk.redBright(`>> fail to read config: ${e.message}`));
+    return false;
+  }
+
+  log(chalk.blue.bold(`> validate config`));
+  let config: Configuration | undefined;
+  let isValid = true;
+  // unset environment variables are replaced with empty strings, which may pass the schema silently
+  const errors = [
+    ...unsetEnvs,
+    ...findUnknownFields(configurationSchema, raw).map(path => `${path}: unknown field`),
+  ];
+  try {
+    config = await configurationSchema.validate(raw, { abortEarly: false });
+  } catch (e) {
+    if (!(e instanceof ValidationError)) throw e;
+    errors.push(...(e.inner.length ? e.inner : [e]).map(error => `${error.path || '<root>'}: ${error.message}`));
+  }
+  if (errors.length) {
+    errors.forEach(error => log(chalk.redBright(`>> ${error}`)));
+    log(chalk.redBright(`>> ${errors.length} error(s) found`));
+    isValid = false;
+  }
+
+  log(chalk.blue.bold(`> check webdriver binaries`));
+  // check the raw drivers as well if schema validation fails
+  const drivers: any[] = config?.drivers || (Array.isArray(raw.drivers) ? raw.drivers : []);
+  for (const [i, driver] of drivers.entries()) {
+    const path = driver?.command?.path;
+    if ('string' !== typeof path) continue;
+    const error = checkCommandPath(path);
+    if (driver.resolver) {
+      log(chalk.green(`>> drivers[${i}].command.path: resolved on start, ${path} is used if it fails`));
+    } else if (error) {
+      isValid = false;
+      log(chalk.redBright(`>> drivers[${i}].command.path: ${error}`));
+    } else {
+      log(chalk.green(`>> drivers[${i}].command.path: ${path}`));
+    }
+  }
+
+  if (!config) {
+    log(chalk.redBright(`> config is invalid`));
+    return false;
+  }
+
+  log(chalk.blue.bold(`> resolved config`));
+  // keep the order of fields defined in schema, secrets may come from environment variables so they are masked
+  log(stringify(maskSecrets(_.pick(config, Object.keys(configurationSchema.fields)))));
+
+  if (options.dryRun) {
+    log(chalk.blue.bold('> provision tasks (dry run)'));
+    const provisionFolder = join(config.tmpFolder, 'provisions');
+    for (const task of config.provision.tasks) {
+      const { taskString, taskDigestFile } = getProvisionTaskDigest(task, provisionFolder);
+      const skipped = getProvisionTaskSkipReason(task, config);
+      if (fs.existsSync(taskDigestFile) && !task.neverSkip) {
+        log(chalk.yellow(`>> skip: ${taskString}`));
+      } else if (skipped) {
+        log(chalk.yellow(`>> skip (${skipped}): ${taskString}`));
+      } else {
+        log(chalk.green(`>> run: ${taskString}`));
+      }
+    }
+  }
+
+  log(isValid ? chalk.green.bold(`> config is valid`) : chalk.redBright(`> config is invalid`));
+  return isValid;
+}
+
+// e.g. auth.tokens, auth.adminToken, auth.nodeSecret, auth.users[].password, sentry.dsn and envs like API_KEY
+const SECRET_FIELD_PATTERN = /token|secret|password|passwd|dsn|credential|api_?key|private_?key/i;
+
+function maskSecrets(value: any, isSecret = false): any {
+  if (Array.isArray(value)) return value.map(item => maskSecrets(item, isSecret));
+  if (_.isPlainObject(value)) return _.mapValues(value, (v, key) => maskSecrets(v, isSecret || SECRET_FIELD_PATTERN.test(key)));
+  return isSecret && 'string' === typeof value && value ? '******' : value;
+}
+
+function checkCommandPath(path: string): string | undefined {
+  if (isHttpUrl(path)) {
+    try {
+      new URL(path);
+      return;
+    } catch (e) {
+      return `invalid url`;
+    }
+  }
+  if (isAbsolute(path) || path.includes('/') || path.includes('\\')) {
+    return fs.existsSync(path) ? undefined : `file not found`;
+  }
+  // search binary in PATH like a shell does
+  const exts = 'win32' === process.platform ? (process.env.PATHEXT || '.EXE').split(';') : [''];
+  const found = (process.env.PATH || '').split(delimiter).some(dir =>
+    exts.some(ext => fs.existsSync(join(dir, path + ext)) || fs.existsSync(join(dir, path))));
+  return found ? undefined : `cannot find ${path} in PATH`;
+}
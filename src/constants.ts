@@ -15,10 +15,22 @@ export const WEBDRIVER_ERRORS = {
     code: 404,
     error: 'invalid node id'
   },
+  INVALID_JOB_ID: {
+    code: 404,
+    error: 'invalid job id'
+  },
   INVALID_ENDPOINT: {
     code: 400,
     error: 'invalid endpoint',
   },
+  INVALID_ARGUMENT: {
+    code: 400,
+    error: 'invalid argument',
+  },
+  UNAUTHORIZED: {
+    code: 401,
+    error: 'unauthorized',
+  },
   UNKNOWN_ERROR: {
     code: 500,
     error: 'unknown error',
@@ -43,7 +55,20 @@ export const SF_CAPS_FIELDS = {
   NODE_TAGS: 'sf:nodeTags',
   CLEAN_USER_DATA: 'sf:cleanUserData',
   ENVS: 'sf:envs',
+  PRIORITY: 'sf:priority',
+  SLOT_STRATEGY: 'sf:slotStrategy',
+  RECORD_VIDEO: 'sf:recordVideo',
+  RECORD_SCREENSHOTS: 'sf:recordScreenshots',
 };
 
+export const SLOT_STRATEGIES = ['random', 'least-loaded', 'round-robin', 'most-recently-idle', 'tag-weighted'];
+
+export const REQUEST_ID_HEADER = 'x-sf-request-id';
+export const NODE_SECRET_HEADER = 'x-sf-node-secret';
+
 export const REGISTER_TIMEOUT_IN_MS = 30e3;
-export const LONG_TIMEOUT_IN_MS = 300e3;
\ No newline at end of file
+export const NODE_STATE_STALE_TIMEOUT_IN_MS = 20e3;
+export const LONG_TIMEOUT_IN_MS = 300e3;
+export const PROVISION_JOB_POLL_INTERVAL_IN_MS = 1e3;
+export const WARM_POOL_HEALTH_CHECK_INTERVAL_IN_MS = 30e3;
+export const WARM_POOL_RETRY_INTERVAL_IN_MS = 10e3;
@@ -1,20 +1,22 @@
 import { AxiosRequestConfig, AxiosResponse } from "axios";
-import { LocalService, HubService, TerminateOptions, getFile, deleteFile } from "./service";
+import { LocalService, HubService, TerminateOptions, getFile, deleteFile, getArtifactsFolder } from "./service";
 import { RequestCapabilities } from "./session";
 import { Context, Request } from 'koa';
 import Server from 'http-proxy';
 import { Duplex } from "stream";
 import { IncomingMessage } from 'http';
+import { Agent } from 'https';
 import { match } from "path-to-regexp";
-import { logMessage, runProvisionTask, Semaphore, TaskResult } from "./utils";
-import { LONG_TIMEOUT_IN_MS, WEBDRIVER_ERRORS } from "./constants";
-import { Configuration, NodeDto, provisionTaskSchema, registerDtoSchema, RequestHandler, WebdriverError } from "./types";
+import { ProvisionJobManager } from "./provision";
+import { addLogContext, logger } from "./logger";
+import { LONG_TIMEOUT_IN_MS, NODE_SECRET_HEADER, WEBDRIVER_ERRORS } from "./constants";
+import { Configuration, fleetProvisionRequestSchema, NodeDto, provisionTaskSchema, registerDtoSchema, RequestHandler, WebdriverError } from "./types";
 import * as fs from 'fs';
-import { join } from 'path';
 import { Either } from "purify-ts";
 import { ParsedUrlQuery } from 'querystring';
 import { format } from 'util';
-import { nanoid } from "nanoid";
+import { registry, renderMetrics } from "./metrics";
+import { reloadConfig } from "./config";
 
 
 
@@ -36,11 +38,20 @@ export interface IController {
   onAutoCmdRequestToSession: RequestHandler;
 
   onFileRequestToSession: RequestHandler;
+  onArtifactsRequestToSession: RequestHandler;
 
   onNodeRegiester: RequestHandler;
   onGetNodesRequest: RequestHandler;
+  onGetSessionDetailsRequest: RequestHandler;
+  onKillSessionRequest: RequestHandler;
+  onDrainNodeRequest: RequestHandler;
+  onReloadConfigRequest: RequestHandler;
   onTermiateRequest: RequestHandler;
   onRunProvisionTask: RequestHandler;
+  onGetProvisionJobsRequest: RequestHandler;
+  onGetProvisionJobRequest: RequestHandler;
+  onGetProvisionJobLogRequest: RequestHandler;
+  onProvisionNodesRequest: RequestHandler;
 }
 
 
@@ -48,12 +59,30 @@ export class HubController implements IController {
 
   constructor(
     private readonly hubService: HubService,
-  ) { }
+    private proxy: Server,
+    private readonly nodeHeaders: { [key: string]: string } = {},
+    private readonly httpsAgent?: Agent,
+  ) {
+    this.proxy.on('error', (err) => logger.error(`websocket proxy error`, err));
+    this.proxy.on('econnreset', (err) => logger.error(`websocket proxy connection reset`, err));
+  }
 
   onRunProvisionTask: RequestHandler = async (ctx, next) => {
     throw Error(`provision endpoint is optional in hub mode`);
   }
 
+  onGetProvisionJobsRequest: RequestHandler = async (ctx, next) => {
+    throw Error(`provision endpoint is optional in hub mode`);
+  }
+
+  onGetProvisionJobRequest: RequestHandler = async (ctx, next) => {
+    throw Error(`provision endpoint is optional in hub mode`);
+  }
+
+  onGetProvisionJobLogRequest: RequestHandler = async (ctx, next) => {
+    throw Error(`provision endpoint is optional in hub mode`);
+  }
+
   onFileRequestToSession: RequestHandler = async (ctx, next) => {
     throw Error(`download-directory endpoint is optional in hub mode`);
   }
@@ -62,6 +91,16 @@ export class HubController implements IController {
     throw Error(`termiate endpoint is optional in hub mode`);
   }
 
+  onArtifactsRequestToSession: RequestHandler = async (ctx, next) => {
+    const { sessionId, path } = getSessionParams(ctx);
+    const request: AxiosRequestConfig = {
+      ...toForwardRequest(ctx),
+      responseType: 'arraybuffer',
+    };
+    const result = await this.hubService.forwardArtifactsRequest(sessionId, path, request);
+    setForwardResponse(ctx, result);
+  }
+
   onGetBestMatchRequest: RequestHandler = async (ctx, next) => {
     // TODO: implement when necessary
     throw Error(`best-match endpoint is optional in hub mode`);
@@ -103,13 +142,39 @@ export class HubController implements IController {
   onAutoCmdRequestToSession: RequestHandler = this.onAutoCmdRequest;
 
   onWebsocketUpgrade = async (req: IncomingMessage, socket: Duplex, header: Buffer) => {
-    throw Error(`hub mode won't handle websocket proxy`);
+    const params = getWebsocketParams(req.url);
+    if (!params) {
+      socket.destroy();
+      return;
+    }
+    const { sessionId, protocol } = params;
+    const nodeUrl = this.hubService.getNodeUrlBySessionId(sessionId);
+    if (!nodeUrl) {
+      socket.destroy();
+      return;
+    }
+    // capture socket error, it happens when node close socket connection
+    socket.on('error', (err) => logger.error(`websocket error`, err));
+    const target = `${nodeUrl}/wd/hub/session/${encodeURIComponent(sessionId)}/se/${protocol}`;
+    logger.info(`create websocket proxy to ${target}`);
+
+    const targetUrl = new URL(target);
+    this.proxy.ws(req, socket, header, {
+      target,
+      ignorePath: true,
+      ws: true,
+      agent: 'https:' === targetUrl.protocol ? this.httpsAgent : undefined,
+      headers: {
+        ...this.nodeHeaders,
+        host: targetUrl.host,
+      }
+    });
   }
 
   onNodeRegiester: RequestHandler = async (ctx, next) => {
     const registerRequest = registerDtoSchema.validateSync(ctx.request.body);
     const nodeUrl = format(registerRequest.registerAs, ctx.request.ip);
-    await this.hubService.onRegister(nodeUrl);
+    await this.hubService.onRegister(nodeUrl, registerRequest.nodes);
     ctx.status = 201;
   }
 
@@ -120,40 +185,102 @@ export class HubController implements IController {
       body: nodes,
     });
   }
+
+  onGetSessionDetailsRequest: RequestHandler = async (ctx, next) => {
+    const { headers } = toForwardRequest(ctx);
+    setHttpResponse(ctx, {
+      status: 200,
+      body: await this.hubService.getSessionDetails({ headers }),
+    });
+  }
+
+  onKillSessionRequest: RequestHandler = async (ctx, next) => {
+    const { sessionId } = getSessionParams(ctx);
+    const result = await this.hubService.killSession(sessionId, toForwardRequest(ctx));
+    setForwardResponse(ctx, result);
+  }
+
+  onDrainNodeRequest: RequestHandler = async (ctx, next) => {
+    const result = await this.hubService.setNodeDraining(ctx.params.nodeId, toForwardRequest(ctx));
+    setForwardResponse(ctx, result);
+  }
+
+  onProvisionNodesRequest: RequestHandler = async (ctx, next) => {
+    const request = await fleetProvisionRequestSchema.validate(ctx.request.body);
+    const result = await this.hubService.provisionNodes(request, toForwardRequest(ctx).headers);
+    result.ifLeft(err => {
+      setHttpResponse(ctx, {
+        status: err.code,
+        body: { value: err },
+      });
+    }).ifRight(report => {
+      setHttpResponse(ctx, {
+        status: 200,
+        body: report,
+      });
+    });
+  }
+
+  onReloadConfigRequest: RequestHandler = async (ctx, next) => {
+    setHttpResponse(ctx, {
+      status: WEBDRIVER_ERRORS.INVALID_ENDPOINT.code,
+      body: {
+        value: {
+          ...WEBDRIVER_ERRORS.INVALID_ENDPOINT,
+          message: `reload is only supported in local mode`,
+          stacktrace: '',
+        }
+      },
+    });
+  }
 }
 
 export class LocalController implements IController {
 
-  private provisionTaskLock = new Semaphore(1);
-
   constructor(
     private readonly config: Configuration,
     private readonly localService: LocalService,
     private proxy: Server,
+    private readonly provisionJobManager: ProvisionJobManager,
   ) {
-    this.proxy.on('error', (err) => console.error(err));
-    this.proxy.on('econnreset', (err) => console.error(err));
+    this.proxy.on('error', (err) => logger.error(`websocket proxy error`, err));
+    this.proxy.on('econnreset', (err) => logger.error(`websocket proxy connection reset`, err));
   }
 
   onRunProvisionTask: RequestHandler = async (ctx, next) => {
-    await this.provisionTaskLock.withLock(async () => {
-      const task = await provisionTaskSchema.validate(ctx.request.body);
-      console.log(`start to run provision task`, task);
-      const downloadFolder = join(this.config.tmpFolder, `ad-hoc-provision-${nanoid()}`);
-      await fs.promises.mkdir(downloadFolder, { recursive: true });
-      let result: TaskResult;
-      try {
-        result = await runProvisionTask(task, { downloadFolder });
-      } finally {
-        await fs.promises.rm(downloadFolder, { recursive: true, force: true })
-      }
-      setHttpResponse(ctx, {
-        status: 200,
-        body: result,
-      });
+    const task = await provisionTaskSchema.validate(ctx.request.body);
+    const job = await this.provisionJobManager.submit(task);
+    setHttpResponse(ctx, {
+      status: 202,
+      body: job,
+    });
+  }
+
+  onGetProvisionJobsRequest: RequestHandler = async (ctx, next) => {
+    setHttpResponse(ctx, {
+      status: 200,
+      body: await this.provisionJobManager.getJobs(),
+    });
+  }
+
+  onGetProvisionJobRequest: RequestHandler = async (ctx, next) => {
+    const job = await this.provisionJobManager.getJob(ctx.params.jobId);
+    if (!job) return setInvalidJobIdResponse(ctx);
+    setHttpResponse(ctx, {
+      status: 200,
+      body: job,
     });
   }
 
+  onGetProvisionJobLogRequest: RequestHandler = async (ctx, next) => {
+    const log = await this.provisionJobManager.getJobLog(ctx.params.jobId);
+    if (!log) return setInvalidJobIdResponse(ctx);
+    // output is streamed as it is produced until the job finishes
+    ctx.status = 200;
+    ctx.type = 'text/plain; charset=utf-8';
+    ctx.body = log;
+  }
+
   onTermiateRequest: RequestHandler = async (ctx, next) => {
     const query = ctx.request.query;
     await this.localService.terminate(queryToTerminateOptions(query));
@@ -184,11 +311,12 @@ export class LocalController implements IController {
 
   onGetBestMatchRequest: RequestHandler = async (ctx, next) => {
     const request = new RequestCapabilities(ctx.request);
-    const driver = this.localService.getBestAvailableWebdirver(request);
+    // draining or terminating nodes should not be picked up by hub
+    const driver = this.localService.getBestMatch(request);
     if (driver) {
       setHttpResponse(ctx, {
         status: 200,
-        body: driver.jsonObject,
+        body: driver,
       });
     } else {
       setHttpResponse(ctx, {
@@ -224,26 +352,95 @@ export class LocalController implements IController {
     });
   }
 
+  onGetSessionDetailsRequest: RequestHandler = async (ctx, next) => {
+    setHttpResponse(ctx, {
+      status: 200,
+      body: this.localService.getSessionDetails(),
+    });
+  }
+
+  onKillSessionRequest: RequestHandler = async (ctx, next) => {
+    const { sessionId } = getSessionParams(ctx);
+    const result = await this.localService.killSession(sessionId);
+    result.ifLeft(err => {
+      setHttpResponse(ctx, {
+        status: err.code,
+        body: { value: err },
+      });
+    }).ifRight(() => {
+      setHttpResponse(ctx, {
+        status: 200,
+        body: { value: null },
+      });
+    });
+  }
+
+  onDrainNodeRequest: RequestHandler = async (ctx, next) => {
+    const nodeId = ctx.params.nodeId;
+    if (nodeId !== this.config.uuid) {
+      return setHttpResponse(ctx, {
+        status: WEBDRIVER_ERRORS.INVALID_NODE_ID.code,
+        body: {
+          value: {
+            ...WEBDRIVER_ERRORS.INVALID_NODE_ID,
+            message: `node id ${nodeId} is invalid`,
+            stacktrace: '',
+          }
+        },
+      });
+    }
+    // POST to drain, DELETE to undrain
+    this.localService.setDraining('DELETE' !== ctx.method);
+    setHttpResponse(ctx, {
+      status: 200,
+      body: { value: { draining: this.localService.draining } },
+    });
+  }
+
+  onReloadConfigRequest: RequestHandler = async (ctx, next) => {
+    try {
+      this.localService.reload(await reloadConfig());
+    } catch (e) {
+      return setHttpResponse(ctx, {
+        status: WEBDRIVER_ERRORS.INVALID_ARGUMENT.code,
+        body: {
+          value: {
+            ...WEBDRIVER_ERRORS.INVALID_ARGUMENT,
+            message: `fail to reload config: ${e.message}`,
+            stacktrace: e.stack || '',
+          }
+        },
+      });
+    }
+    setHttpResponse(ctx, {
+      status: 200,
+      body: { value: this.localService.getDriverDtos() },
+    });
+  }
+
   onWebsocketUpgrade = async (req: IncomingMessage, socket: Duplex, header: Buffer) => {
-    const sessionId = this.getSessionIdFromCdpPath(req.url);
-    if (!sessionId) {
+    const params = getWebsocketParams(req.url);
+    if (!params) {
       socket.destroy();
       return;
     }
-    const cdpEndpoint = await this.localService.getCdpEndpointBySessionId(sessionId);
-    if (!cdpEndpoint) {
+    const { sessionId, protocol } = params;
+    const endpoint = 'bidi' === protocol ?
+      await this.localService.getBidiEndpointBySessionId(sessionId) :
+      await this.localService.getCdpEndpointBySessionId(sessionId);
+    if (!endpoint) {
       socket.destroy();
       return;
     }
     // capture socket error, it happens when webdirver close socket connection
-    socket.on('error', (err) => console.error(err));
-    logMessage(`create websocket proxy to ${cdpEndpoint}`);
+    socket.on('error', (err) => logger.error(`websocket error`, err));
+    logger.info(`create websocket proxy to ${endpoint}`);
 
     // this.proxy.on('proxyReqWs', (proxyReq) => { });
 
-    const targetUrl = new URL(cdpEndpoint);
+    const targetUrl = new URL(endpoint);
     this.proxy.ws(req, socket, header, {
-      target: cdpEndpoint,
+      target: endpoint,
       ignorePath: true,
       ws: true,
       headers: {
@@ -282,20 +479,38 @@ export class LocalController implements IController {
     }
   }
 
+  onArtifactsRequestToSession: RequestHandler = async (ctx, next) => {
+    const { sessionId } = getSessionParams(ctx);
+    // artifacts are still available after session ends
+    // sessionId is joined into path, so it must not contain path separators or dots
+    const root = isValidSessionId(sessionId) ? getArtifactsFolder(this.config, sessionId) : '';
+    if (!root || !fs.existsSync(root)) {
+      return setHttpResponse(ctx, {
+        status: WEBDRIVER_ERRORS.INVALID_SESSION_ID.code,
+        body: `no artifacts found for session ${sessionId}`,
+      });
+    }
+    return await getFile(ctx, root, false);
+  }
+
   onNodeRegiester: RequestHandler = (ctx, next) => {
     throw Error(`register endpoint is not supported in local mode`);
   }
 
-  private cdpPathPattern = match<{ sessionId: string }>(`/wd/hub/session/:sessionId/se/cdp`, { decode: decodeURIComponent });
-
-  private getSessionIdFromCdpPath(pathname?: string) {
-    if (!pathname) return;
-    const match = this.cdpPathPattern(pathname);
-    return match ? match?.params?.sessionId : undefined;
+  onProvisionNodesRequest: RequestHandler = (ctx, next) => {
+    throw Error(`provision nodes endpoint is not supported in local mode`);
   }
 
 }
 
+const websocketPathPattern = match<{ sessionId: string, protocol: 'cdp' | 'bidi' }>(`/wd/hub/session/:sessionId/se/:protocol(cdp|bidi)`, { decode: decodeURIComponent });
+
+function getWebsocketParams(pathname?: string) {
+  if (!pathname) return;
+  const match = websocketPathPattern(pathname);
+  return match ? match.params : undefined;
+}
+
 export const onError: RequestHandler = (ctx, next) => {
   next().catch(e => {
     ctx.status = 500,
@@ -309,6 +524,14 @@ export const onError: RequestHandler = (ctx, next) => {
   });
 }
 
+export const onGetMetricsRequest: RequestHandler = async (ctx, next) => {
+  setHttpResponse(ctx, {
+    status: 200,
+    headers: { 'Content-Type': registry.contentType },
+    body: await renderMetrics(),
+  });
+}
+
 export function serveStatic(root: string): RequestHandler {
   return async (ctx, next) => {
     if (ctx.method !== 'HEAD' && ctx.method !== 'GET') return;
@@ -316,6 +539,21 @@ export function serveStatic(root: string): RequestHandler {
   }
 }
 
+const isValidSessionId = (id: string) => /^[\w-]+$/.test(id);
+
+const setInvalidJobIdResponse = (ctx: Context) => {
+  setHttpResponse(ctx, {
+    status: WEBDRIVER_ERRORS.INVALID_JOB_ID.code,
+    body: {
+      value: {
+        ...WEBDRIVER_ERRORS.INVALID_JOB_ID,
+        message: `provision job ${ctx.params.jobId} is not found`,
+        stacktrace: '',
+      },
+    },
+  });
+}
+
 export const setHttpResponse = (ctx: Context, response: Partial<HttpResponse>) => {
   if (response.status) {
     ctx.status = response.status;
@@ -323,7 +561,7 @@ export const setHttpResponse = (ctx: Context, response: Partial<HttpResponse>) =
   if (response.headers) {
     ctx.set(response.headers);
   }
-  if ('object' === typeof (response.body)) {
+  if ('object' === typeof (response.body) && !Buffer.isBuffer(response.body)) {
     ctx.body = JSON.stringify(response.body);
   } else {
     ctx.body = response.body;
@@ -335,6 +573,7 @@ function toForwardRequest(ctx: Context): AxiosRequestConfig {
   const headers = { ...fromRequest.headers };
   delete headers['host'];
   delete headers['content-length'];
+  delete headers[NODE_SECRET_HEADER];  // should only be set by hub
   return {
     method: fromRequest.method as any,
     data: fromRequest.rawBody,
@@ -367,6 +606,7 @@ const getSessionParams = (ctx: Context) => {
   if (!sessionId) {
     throw new Error(`sessionId is empty`);
   }
+  addLogContext({ sessionId });
   return { sessionId, path: params[0] ? '/' + params[0] : '' };
 }
 
@@ -0,0 +1,175 @@
+import { Auth } from './auth';
+import { setHttpResponse } from './controllers';
+import { Configuration, RequestHandler } from './types';
+
+/**
+ * Serve a read-only dashboard of nodes, drivers and sessions.
+ * The page itself contains no data, it pulls /wd/hub/nodes with the credentials provided by user.
+ */
+export function serveDashboard(config: Configuration): RequestHandler {
+  return async (ctx, next) => {
+    setHttpResponse(ctx, {
+      status: 200,
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      body: renderDashboardPage({ role: config.role, version: config.version }),
+    });
+  }
+}
+
+/**
+ * Tell dashboard what the current credentials are allowed to do.
+ */
+export function onGetDashboardAuth(auth: Auth): RequestHandler {
+  return async (ctx, next) => {
+    setHttpResponse(ctx, {
+      status: 200,
+      body: {
+        client: auth.isClient(ctx.request.headers),
+        admin: auth.isAdmin(ctx.request.headers),
+      },
+    });
+  }
+}
+
+function renderDashboardPage(data: { role: string, version: string }) {
+  return [
+    `<!DOCTYPE html>`,
+    `<html>`,
+    `<head>`,
+    `<meta charset="utf-8">`,
+    `<title>Selenium Federation</title>`,
+    `<style>`,
+    `body { font-family: sans-serif; font-size: 14px; margin: 16px; }`,
+    `table { border-collapse: collapse; width: 100%; margin-bottom: 8px; }`,
+    `th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }`,
+    `th { background: #f5f5f5; }`,
+    `.node { border: 1px solid #ccc; padding: 8px 12px; margin-bottom: 16px; }`,
+    `.terminating { color: #c00; }`,
+    `.muted { color: #888; }`,
+    `pre { margin: 0; max-height: 240px; overflow: auto; }`,
+    `</style>`,
+    `</head>`,
+    `<body>`,
+    `<h2>Selenium Federation <small class="muted">${escapeHtml(data.role)} ${escapeHtml(data.version)}</small></h2>`,
+    `<p>`,
+    `Token: <input id="token" type="password" placeholder="optional bearer token"> <button id="save">Save</button>`,
+    `<span id="status" class="muted"></span>`,
+    `</p>`,
+    `<div id="nodes"></div>`,
+    `<script>`,
+    DASHBOARD_SCRIPT,
+    `</script>`,
+    `</body>`,
+    `</html>`,
+  ].join('\n');
+}
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// plain es2017 without template literals, so that it can be embedded as is
+const DASHBOARD_SCRIPT = `
+var REFRESH_INTERVAL = 5000;
+var admin = false;
+
+function esc(s) {
+  return String(s === undefined || s === null ? '' : s)
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function authHeaders() {
+  var token = localStorage.getItem('sf-token');
+  return token ? { Authorization: 'Bearer ' + token } : {};
+}
+
+function age(ts) {
+  if (!ts) return '-';
+  var s = Math.max(0, Math.floor((Date.now() - ts) / 1000));
+  return Math.floor(s / 3600) + 'h ' + Math.floor(s % 3600 / 60) + 'm ' + s % 60 + 's';
+}
+
+function renderSession(session) {
+  var caps = session.responseCapabilities || {};
+  var actions = admin ? '<button data-kill="' + esc(session.id) + '">Kill</button>' : '';
+  return '<tr>' +
+    '<td>' + esc(session.id) + '</td>' +
+    '<td>' + age(session.createdAt) + '</td>' +
+    '<td>' + esc(caps['se:cdp'] || '-') + '</td>' +
+    '<td><details><summary>' + esc(caps.browserName) + ' ' + esc(caps.browserVersion) + '</summary>' +
+    '<pre>' + esc(JSON.stringify(caps, null, 2)) + '</pre></details></td>' +
+    '<td>' + actions + '</td>' +
+    '</tr>';
+}
+
+function renderDriver(driver) {
+  var config = driver.config;
+  var sessions = driver.sessions || [];
+  return '<tr>' +
+    '<td>' + esc(config.browserName) + ' ' + esc(config.browserVersion) + '</td>' +
+    '<td>' + esc((config.tags || []).join(', ')) + '</td>' +
+    '<td>' + sessions.length + ' / ' + esc(config.maxSessions) + '</td>' +
+    '<td>' + (sessions.length ?
+      '<table><tr><th>Session</th><th>Age</th><th>CDP</th><th>Capabilities</th><th></th></tr>' + sessions.map(renderSession).join('') + '</table>' :
+      '<span class="muted">no session</span>') + '</td>' +
+    '</tr>';
+}
+
+function renderNode(node) {
+  var config = node.config;
+  var actions = admin ?
+    ' <button data-drain="' + esc(config.uuid) + '" data-method="' + (node.draining ? 'DELETE' : 'POST') + '">' + (node.draining ? 'Undrain' : 'Drain') + '</button>' : '';
+  return '<div class="node">' +
+    '<h3>' + esc(config.publicUrl || config.uuid) +
+    (node.terminating ? ' <span class="terminating">(terminating)</span>' : '') +
+    (node.draining ? ' <span class="terminating">(draining)</span>' : '') + actions + '</h3>' +
+    '<p class="muted">' +
+    'uuid: ' + esc(config.uuid) + ' | platform: ' + esc(config.platformName) + ' | tags: ' + esc((config.tags || []).join(', ')) +
+    ' | version: ' + esc(config.version) + ' | start time: ' + esc(config.startTime) +
+    '</p>' +
+    '<table><tr><th>Browser</th><th>Tags</th><th>Slots</th><th>Sessions</th></tr>' + (node.drivers || []).map(renderDriver).join('') + '</table>' +
+    '</div>';
+}
+
+async function refresh() {
+  var status = document.getElementById('status');
+  try {
+    var authRes = await fetch('/ui/auth', { headers: authHeaders() });
+    admin = authRes.ok && (await authRes.json()).admin;
+    var res = await fetch('/wd/hub/nodes', { headers: authHeaders() });
+    if (!res.ok) throw Error('fail to load nodes: ' + res.status);
+    var nodes = await res.json();
+    document.getElementById('nodes').innerHTML = nodes.length ? nodes.map(renderNode).join('') : '<p class="muted">no node</p>';
+    status.textContent = 'updated at ' + new Date().toLocaleTimeString();
+  } catch (e) {
+    status.textContent = String(e);
+  }
+}
+
+async function killSession(sessionId) {
+  if (!confirm('Kill session ' + sessionId + '?')) return;
+  var res = await fetch('/admin/sessions/' + encodeURIComponent(sessionId), { method: 'DELETE', headers: authHeaders() });
+  if (!res.ok) alert('fail to kill session: ' + res.status);
+  refresh();
+}
+
+async function drainNode(nodeId, method) {
+  var res = await fetch('/wd/hub/nodes/' + encodeURIComponent(nodeId) + '/drain', { method: method, headers: authHeaders() });
+  if (!res.ok) alert('fail to update node: ' + res.status);
+  refresh();
+}
+
+document.getElementById('token').value = localStorage.getItem('sf-token') || '';
+document.getElementById('save').onclick = function () {
+  localStorage.setItem('sf-token', document.getElementById('token').value);
+  refresh();
+};
+document.getElementById('nodes').onclick = function (e) {
+  var sessionId = e.target.getAttribute('data-kill');
+  if (sessionId) killSession(sessionId);
+  var nodeId = e.target.getAttribute('data-drain');
+  if (nodeId) drainNode(nodeId, e.target.getAttribute('data-method'));
+};
+refresh();
+setInterval(refresh, REFRESH_INTERVAL);
+`;
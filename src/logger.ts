@@ -0,0 +1,113 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { format } from 'util';
+import { nanoid } from 'nanoid';
+import type { RequestHandler } from './types';
+import { REQUEST_ID_HEADER } from './constants';
+
+const LOG_LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export type LogLevel = keyof typeof LOG_LEVELS;
+export type LogFormat = 'text' | 'json';
+
+export interface LogFields {
+  sessionId?: string;
+  nodeId?: string;
+  driverId?: string;
+  requestId?: string;
+  [key: string]: unknown;
+}
+
+interface LoggerOptions {
+  level: LogLevel;
+  format: LogFormat;
+  fields: LogFields;
+}
+
+const options: LoggerOptions = {
+  level: 'info',
+  format: 'text',
+  fields: {},
+};
+
+// fields of current request, which are shared by all logs within the same async context
+const logContext = new AsyncLocalStorage<LogFields>();
+
+export function configureLogger(opts: Partial<LoggerOptions>) {
+  Object.assign(options, opts);
+}
+
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return logContext.run({ ...logContext.getStore(), ...fields }, fn);
+}
+
+export function addLogContext(fields: LogFields) {
+  const store = logContext.getStore();
+  if (store) Object.assign(store, fields);
+}
+
+export function getLogContext(): LogFields {
+  return logContext.getStore() || {};
+}
+
+export class Logger {
+
+  constructor(
+    private readonly fields: LogFields = {},
+  ) { }
+
+  child(fields: LogFields) {
+    return new Logger({ ...this.fields, ...fields });
+  }
+
+  debug(message: string, ...args: unknown[]) { this.log('debug', message, args); }
+  info(message: string, ...args: unknown[]) { this.log('info', message, args); }
+  warn(message: string, ...args: unknown[]) { this.log('warn', message, args); }
+  error(message: string, ...args: unknown[]) { this.log('error', message, args); }
+
+  private log(level: LogLevel, message: string, args: unknown[]) {
+    if (LOG_LEVELS[level] < LOG_LEVELS[options.level]) return;
+    const fields: LogFields = { ...options.fields, ...getLogContext(), ...this.fields };
+    const errors = args.filter(arg => arg instanceof Error) as Error[];
+    const others = args.filter(arg => !(arg instanceof Error));
+    const write = LOG_LEVELS[level] >= LOG_LEVELS.warn ? process.stderr : process.stdout;
+
+    if ('json' === options.format) {
+      const error = errors[0];
+      write.write(JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        message: others.length ? format(message, ...others) : message,
+        ...fields,
+        ...(error ? { error: error.message, stack: error.stack } : {}),
+      }) + '\n');
+    } else {
+      const prefix = Object.entries(fields)
+        .filter(([, v]) => undefined !== v)
+        .map(([k, v]) => `${k}=${v}`)
+        .join(' ');
+      const text = format(message, ...others, ...errors.map(e => e.stack || e.message));
+      write.write(`${new Date().toISOString()} [${level}]${prefix ? ` [${prefix}]` : ''} ${text}\n`);
+    }
+  }
+}
+
+export const logger = new Logger();
+
+/**
+ * Assign a request id to each request and log the request when it finishes.
+ * The request id is reused if it has been set by the caller (hub, for example),
+ * so that the lifecycle of a session can be traced across processes.
+ */
+export const onRequestContext: RequestHandler = async (ctx, next) => {
+  const requestId = ctx.get(REQUEST_ID_HEADER) || nanoid();
+  ctx.request.headers[REQUEST_ID_HEADER] = requestId;  // to be forwarded
+  ctx.set(REQUEST_ID_HEADER, requestId);
+  const start = Date.now();
+  await runWithLogContext({ requestId }, async () => {
+    try {
+      await next();
+    } finally {
+      logger.info(`${ctx.method} ${ctx.url} ${ctx.status} ${Date.now() - start}ms`);
+    }
+  });
+}
@@ -1,21 +1,39 @@
 import Koa from "koa";
 import Router from "@koa/router";
 import bodyparser from "koa-bodyparser";
-import logger from "koa-logger";
 import { createProxyServer } from 'http-proxy';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { Duplex } from 'stream';
 
-import { getAndInitConfig } from "./config";
+import { argv, getAndInitConfig, reloadConfig, validateConfig } from "./config";
 import * as Sentry from "@sentry/node";
 
 import { HubService, LocalService } from "./service";
-import { serveStatic, LocalController, onError, IController, HubController } from "./controllers";
+import { serveStatic, LocalController, onError, IController, HubController, onGetMetricsRequest } from "./controllers";
 import { ProcessManager } from "./process";
 import axios from "axios";
+import { createHubStore } from "./store";
+import { Auth } from "./auth";
+import { createHttpsAgent, getTlsServerOptions } from "./tls";
+import { onGetDashboardAuth, serveDashboard } from "./dashboard";
+import { ProvisionJobManager } from "./provision";
+import { configureLogger, LogFormat, LogLevel, logger, onRequestContext } from "./logger";
 
 
 // Get started
 (async () => {
+  if (argv._.includes('validate') || argv['dry-run']) {
+    const isValid = await validateConfig(argv.c, { dryRun: argv['dry-run'] });
+    process.exit(isValid ? 0 : 1);
+  }
+
   const config = await getAndInitConfig();
+  configureLogger({
+    level: config.logging.level as LogLevel,
+    format: config.logging.format as LogFormat,
+    fields: { nodeId: config.uuid },
+  });
 
   if (config.sentry) {
     Sentry.init({
@@ -24,6 +42,7 @@ import axios from "axios";
     });
   }
 
+  const auth = new Auth(config.auth);
   let controller: IController;
 
   if ('local' === config.role) {
@@ -32,12 +51,22 @@ import axios from "axios";
 
     const localService = LocalService.of(config, processManager);
     localService.init();
+    process.on('SIGHUP', () => {
+      logger.info(`on SIGHUP, reload config`);
+      reloadConfig()
+        .then(newConfig => localService.reload(newConfig))
+        .catch(e => logger.error(`fail to reload config`, e));
+    });
+    const provisionJobManager = new ProvisionJobManager(config);
+    await provisionJobManager.init();
     const proxy = createProxyServer({});
-    controller = new LocalController(config, localService, proxy);
+    controller = new LocalController(config, localService, proxy, provisionJobManager);
   } else if ('hub' === config.role) {
-    const hubService = new HubService(config, axios.create({}));
-    hubService.init();
-    controller = new HubController(hubService);
+    const httpsAgent = createHttpsAgent(config);
+    const hubService = new HubService(config, axios.create({ headers: auth.nodeHeaders, httpsAgent }), createHubStore(config));
+    await hubService.init();
+    const proxy = createProxyServer({});
+    controller = new HubController(hubService, proxy, auth.nodeHeaders, httpsAgent);
   } else {
     throw Error(`Invalid role: ${config.role}`);
   }
@@ -45,48 +74,89 @@ import axios from "axios";
   const wdHubRouter = new Router();
   wdHubRouter
     // auto-cmd
-    .post('/session/:sessionId/auto-cmd', controller.onAutoCmdRequestToSession)
-    .post('/nodes/:nodeId/auto-cmd', controller.onAutoCmdRequestToNode)
+    .post('/session/:sessionId/auto-cmd', auth.requireClient, controller.onAutoCmdRequestToSession)
+    .post('/nodes/:nodeId/auto-cmd', auth.requireAdmin, controller.onAutoCmdRequestToNode)
+    // drain
+    .post('/nodes/:nodeId/drain', auth.requireAdmin, controller.onDrainNodeRequest)
+    .delete('/nodes/:nodeId/drain', auth.requireAdmin, controller.onDrainNodeRequest)
     // fs
-    .all('/session/:sessionId/download-directory/(.*)', controller.onFileRequestToSession)
+    .all('/session/:sessionId/download-directory/(.*)', auth.requireClient, controller.onFileRequestToSession)
+    .get(['/session/:sessionId/artifacts', '/session/:sessionId/artifacts/(.*)'], auth.requireClient, controller.onArtifactsRequestToSession)
     // webdriver session
-    .post('/session', controller.onNewWebdriverSessionRequest)
-    .delete(['/session/:sessionId', '/session/:sessionId/'], controller.onDeleteWebdirverSessionRequest)
-    .all(['/session/:sessionId', '/session/:sessionId/(.*)'], controller.onWebdirverSessionCommandRqeust)
+    .post('/session', auth.requireClient, controller.onNewWebdriverSessionRequest)
+    .delete(['/session/:sessionId', '/session/:sessionId/'], auth.requireClient, controller.onDeleteWebdirverSessionRequest)
+    .all(['/session/:sessionId', '/session/:sessionId/(.*)'], auth.requireClient, controller.onWebdirverSessionCommandRqeust)
     // data model
-    .post('/best-match', controller.onGetBestMatchRequest)
-    .get('/nodes', controller.onGetNodesRequest)
-    .post('/register', controller.onNodeRegiester)
+    .post('/best-match', auth.requireClient, controller.onGetBestMatchRequest)
+    .get('/nodes', auth.requireClient, controller.onGetNodesRequest)
+    .post('/register', auth.requireAdmin, controller.onNodeRegiester)
+    // provision nodes of the fleet
+    .post('/provision', auth.requireAdmin, controller.onProvisionNodesRequest)
 
   const rootRouter = new Router();
   rootRouter
     // hub endpoint
     .use('/wd/hub', wdHubRouter.routes(), wdHubRouter.allowedMethods())
     // utils
-    .post('/auto-cmd', controller.onAutoCmdRequest)
-    .get('/terminate', controller.onTermiateRequest)
-    .post('/provision', controller.onRunProvisionTask)
+    .post('/auto-cmd', auth.requireAdmin, controller.onAutoCmdRequest)
+    .get('/terminate', auth.requireAdmin, controller.onTermiateRequest)
+    .post('/provision', auth.requireAdmin, controller.onRunProvisionTask)
+    .get('/provision/jobs', auth.requireAdmin, controller.onGetProvisionJobsRequest)
+    .get('/provision/jobs/:jobId', auth.requireAdmin, controller.onGetProvisionJobRequest)
+    .get('/provision/jobs/:jobId/log', auth.requireAdmin, controller.onGetProvisionJobLogRequest)
+    // admin
+    .get('/admin/sessions', auth.requireAdmin, controller.onGetSessionDetailsRequest)
+    .delete('/admin/sessions/:sessionId', auth.requireAdmin, controller.onKillSessionRequest)
+    .post('/admin/reload', auth.requireAdmin, controller.onReloadConfigRequest)
+    .get('/metrics', auth.requireClient, onGetMetricsRequest)
+    // dashboard, data is pulled from /wd/hub/nodes with the credentials of user
+    .get('/ui', serveDashboard(config))
+    .get('/ui/auth', auth.requireClient, onGetDashboardAuth(auth))
 
   if (config.fileServer && !config.fileServer.disable) {
-    rootRouter.all('/fs/(.*)', serveStatic(config.fileServer.root));
+    rootRouter.all('/fs/(.*)', auth.requireClient, serveStatic(config.fileServer.root));
   }
 
   const app = new Koa();
+  app.use(onRequestContext);
+  if ('local' === config.role) {
+    // only requests forwarded by hub are accepted if node secret is set,
+    // except that metrics and dashboard can be accessed on nodes directly with client or admin credentials
+    app.use(auth.requireNodeSecretExcept([
+      { methods: ['GET'], path: /^\/metrics$/, role: 'client' },
+      { methods: ['GET'], path: /^\/ui(\/auth)?$/, role: 'client' },
+      { methods: ['GET'], path: /^\/wd\/hub\/nodes$/, role: 'client' },
+      { methods: ['POST', 'DELETE'], path: /^\/wd\/hub\/nodes\/[^/]+\/drain$/, role: 'admin' },
+      { methods: ['DELETE'], path: /^\/admin\/sessions\/[^/]+$/, role: 'admin' },
+    ]));
+  }
   app
     .use(bodyparser())
     .use(rootRouter.routes())
     .use(rootRouter.allowedMethods())
-    .use(logger())
     .use(onError);
 
   // set host to a ipv4 address or else request ip will be ipv6 format
   // https://nodejs.org/api/net.html#net_server_listen_port_host_backlog_callback
-  const server = app.listen(config.port, config.host, () => {
-    console.log(`selenium-federation is starting at port ${config.port}`);
+  const tlsOptions = getTlsServerOptions(config);
+  const server = tlsOptions ?
+    https.createServer(tlsOptions, app.callback()) :
+    http.createServer(app.callback());
+  server.listen(config.port, config.host, () => {
+    logger.info(`selenium-federation is starting at port ${config.port}${tlsOptions ? ' (https)' : ''}`);
   });
 
   // handle websocket connection
-  server.on('upgrade', controller.onWebsocketUpgrade);
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, header: Buffer) => {
+    const authorized = 'local' === config.role ?
+      auth.isNodeRequest(req.headers) && auth.isClient(req.headers) :
+      auth.isClient(req.headers);
+    if (!authorized) {
+      socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      return;
+    }
+    controller.onWebsocketUpgrade(req, socket, header);
+  });
 
   // default is 5000, which will lead to ECONNRESET error in some client (got, for example)
   // set to a larger value to workaround this problem,
@@ -0,0 +1,93 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry, prefix: 'sf_' });
+
+const collectors: (() => void)[] = [];
+
+export const metrics = {
+  // local
+  driverBusySlots: new Gauge({
+    name: 'sf_driver_busy_slots',
+    help: 'number of busy slots of driver',
+    labelNames: ['driver', 'browser_name', 'browser_version'],
+    registers: [registry],
+  }),
+  driverAvailableSlots: new Gauge({
+    name: 'sf_driver_available_slots',
+    help: 'number of available slots of driver',
+    labelNames: ['driver', 'browser_name', 'browser_version'],
+    registers: [registry],
+  }),
+  watchdogKills: new Counter({
+    name: 'sf_watchdog_idle_kills_total',
+    help: 'number of sessions killed by watchdog due to idle timeout',
+    registers: [registry],
+  }),
+
+  // common
+  sessionCreateDuration: new Histogram({
+    name: 'sf_session_create_duration_seconds',
+    help: 'latency of creating new session',
+    labelNames: ['result'],
+    buckets: [0.5, 1, 2, 5, 10, 20, 30, 60, 120],
+    registers: [registry],
+  }),
+  sessionCreateFailures: new Counter({
+    name: 'sf_session_create_failures_total',
+    help: 'number of failures of creating new session',
+    labelNames: ['reason'],
+    registers: [registry],
+  }),
+  forwardedCommands: new Counter({
+    name: 'sf_forwarded_commands_total',
+    help: 'number of webdriver commands forwarded',
+    labelNames: ['method', 'status'],
+    registers: [registry],
+  }),
+  forwardedCommandDuration: new Histogram({
+    name: 'sf_forwarded_command_duration_seconds',
+    help: 'latency of forwarding webdriver commands',
+    labelNames: ['method'],
+    registers: [registry],
+  }),
+
+  // hub
+  registeredNodes: new Gauge({
+    name: 'sf_hub_registered_nodes',
+    help: 'number of nodes registered to hub',
+    registers: [registry],
+  }),
+  expiredNodes: new Counter({
+    name: 'sf_hub_expired_nodes_total',
+    help: 'number of nodes removed from hub due to register timeout',
+    registers: [registry],
+  }),
+  sessionCacheSize: new Gauge({
+    name: 'sf_hub_session_cache_size',
+    help: 'number of session routes cached in hub',
+    registers: [registry],
+  }),
+  sessionQueueSize: new Gauge({
+    name: 'sf_hub_session_queue_size',
+    help: 'number of new session requests waiting in hub',
+    registers: [registry],
+  }),
+  bestMatchDuration: new Histogram({
+    name: 'sf_hub_best_match_duration_seconds',
+    help: 'latency of sending best-match requests to nodes',
+    registers: [registry],
+  }),
+};
+
+/**
+ * Register a function to update gauges right before metrics are collected.
+ */
+export function onCollect(collector: () => void) {
+  collectors.push(collector);
+}
+
+export async function renderMetrics() {
+  collectors.forEach(collect => collect());
+  return await registry.metrics();
+}
@@ -0,0 +1,146 @@
+import axios from 'axios';
+import { ChildProcess } from 'child_process';
+import { ProcessManager, ProcessParams } from './process';
+import { DriverConfiguration } from './types';
+import { retry } from './utils';
+import { WARM_POOL_HEALTH_CHECK_INTERVAL_IN_MS, WARM_POOL_RETRY_INTERVAL_IN_MS } from './constants';
+import { Logger, logger } from './logger';
+
+export interface WarmProcess {
+  port: number;
+  process: ChildProcess;
+}
+
+interface PooledProcess extends WarmProcess {
+  key: string;  // the params that process is started with
+}
+
+/**
+ * Keep idle webdriver processes started and ready, so that sessions can be created without waiting for them.
+ * The pool is refilled in background when a process is taken,
+ * processes that fail health checks or are started with outdated command are recycled.
+ */
+export class WebdriverProcessPool {
+  private idle: PooledProcess[] = [];
+  private starting: number = 0;
+  private stopped: boolean = false;
+  private readonly healthCheckTimer: NodeJS.Timeout;
+  private retryTimer?: NodeJS.Timeout;
+  private readonly logger: Logger;
+
+  constructor(
+    private readonly getDriverConfig: () => DriverConfiguration,
+    private readonly processManager: ProcessManager,
+  ) {
+    this.logger = logger.child({ driverId: getDriverConfig().uuid });
+    this.healthCheckTimer = setInterval(() => this.checkHealth(), WARM_POOL_HEALTH_CHECK_INTERVAL_IN_MS);
+  }
+
+  get size() {
+    return this.stopped ? 0 : this.getDriverConfig().warmPool;
+  }
+
+  get idleProcesses() {
+    return this.idle.length;
+  }
+
+  take(): WarmProcess | undefined {
+    this.prune();
+    const warmProcess = this.idle.shift();
+    this.refill();
+    if (warmProcess) {
+      this.logger.info(`take warm webdriver process ${warmProcess.process.pid}`);
+      return { port: warmProcess.port, process: warmProcess.process };
+    }
+  }
+
+  refill() {
+    this.prune();
+    while (this.idle.length + this.starting < this.size) {
+      this.startProcess();
+    }
+  }
+
+  stop() {
+    this.stopped = true;
+    clearInterval(this.healthCheckTimer);
+    clearTimeout(this.retryTimer as NodeJS.Timeout);
+    this.prune();
+  }
+
+  private get params(): ProcessParams {
+    const command = this.getDriverConfig().command;
+    return { path: command.path, args: command.args, envs: command.envs as ProcessParams['envs'], cwd: command.cwd };
+  }
+
+  /**
+   * Recycle the processes that are dead, outdated or more than needed.
+   */
+  private prune() {
+    const key = JSON.stringify(this.params);
+    const [keep, recycle] = [[] as PooledProcess[], [] as PooledProcess[]];
+    for (const warmProcess of this.idle) {
+      const isValid = warmProcess.key === key && isAlive(warmProcess.process) && keep.length < this.size;
+      (isValid ? keep : recycle).push(warmProcess);
+    }
+    this.idle = keep;
+    recycle.forEach(warmProcess => this.recycle(warmProcess, `it is outdated or no longer needed`));
+  }
+
+  private async startProcess() {
+    this.starting++;
+    const params = this.params;
+    let warmProcess: PooledProcess | undefined;
+    try {
+      const { port, webdriverProcess } = await this.processManager.spawnWebdriverProcess(params);
+      warmProcess = { port, process: webdriverProcess, key: JSON.stringify(params) };
+      await retry(async () => await axios.get(`http://localhost:${port}/status`, { timeout: 5e3 }), { max: 10, interval: 5e2 });
+      this.idle.push(warmProcess);
+      webdriverProcess.once('exit', () => this.remove(warmProcess!, `it exited unexpectedly`));
+      this.logger.info(`warm webdriver process ${webdriverProcess.pid} is ready`);
+    } catch (e) {
+      this.logger.error(`fail to start warm webdriver process`, e);
+      if (warmProcess) this.processManager.killProcessGroup(warmProcess.process);
+      // try again later instead of respawning a broken webdriver over and over
+      if (!this.stopped && !this.retryTimer) {
+        this.retryTimer = setTimeout(() => {
+          this.retryTimer = undefined;
+          this.refill();
+        }, WARM_POOL_RETRY_INTERVAL_IN_MS);
+      }
+      return;
+    } finally {
+      this.starting--;
+    }
+    // the pool may be stopped or changed during starting
+    this.prune();
+  }
+
+  private async checkHealth() {
+    for (const warmProcess of [...this.idle]) {
+      try {
+        await axios.get(`http://localhost:${warmProcess.port}/status`, { timeout: 5e3 });
+      } catch (e) {
+        this.remove(warmProcess, `it fails health check: ${e.message}`);
+      }
+    }
+    this.refill();
+  }
+
+  private remove(warmProcess: PooledProcess, reason: string) {
+    // it may have been taken by a session already
+    if (!this.idle.includes(warmProcess)) return;
+    this.idle = this.idle.filter(p => p !== warmProcess);
+    this.recycle(warmProcess, reason);
+    if (!this.stopped) this.refill();
+  }
+
+  private recycle(warmProcess: PooledProcess, reason: string) {
+    this.logger.info(`recycle warm webdriver process ${warmProcess.process.pid} as ${reason}`);
+    if (isAlive(warmProcess.process)) {
+      this.processManager.killProcessGroup(warmProcess.process);
+    }
+  }
+}
+
+const isAlive = (p: ChildProcess) => null === p.exitCode && null === p.signalCode;
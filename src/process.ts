@@ -3,8 +3,9 @@ import { spawn, execSync, ChildProcess } from 'child_process';
 import getPort from "get-port";
 import { Configuration } from "./types";
 import { retry } from "./utils";
+import { logger } from "./logger";
 
-interface ProcessParams {
+export interface ProcessParams {
   path: string;
   args: string[];
   envs: { [key: string]: string };
@@ -51,12 +52,12 @@ export class ProcessManager {
 
   killProcessGroup = (process: ChildProcess) => {
     if (!process.killed || null == process.exitCode) {
-      console.log(`kill process group ${process.pid}`);
+      logger.info(`kill process group ${process.pid}`);
       const cmd = this.isWindows ? `taskkill /T /F /PID ${process.pid}` : `kill -9 -- -${process.pid}`;
       try {
         execSync(cmd, {stdio: 'inherit'});
       } catch (e) {
-        console.error(e);
+        logger.error(`fail to kill process group ${process.pid}`, e);
       }
     }
   }
@@ -64,7 +65,7 @@ export class ProcessManager {
   async spawnWebdriverProcess(params: ProcessParams) {
     const port = await getPort();
     let path = params.path;
-    console.log(`start webdriver process ${path} ${params.args}`);
+    logger.info(`start webdriver process ${path} ${params.args.join(' ')}`);
     const webdriverProcess = spawn(path, [...params.args, `--port=${port}`], {
       stdio: 'inherit', detached: !this.isWindows, windowsHide: this.isWindows,
       env: { ...process.env, ...params.envs, }, cwd: params.cwd,
@@ -76,7 +77,7 @@ export class ProcessManager {
   async spawnNodeJsProcess(params: ProcessParams) {
     const port = await getPort();
     let path = params.path;
-    console.log(`start nodejs process ${path} ${params.args}`);
+    logger.info(`start nodejs process ${path} ${params.args.join(' ')}`);
     const nodejsProcess = spawn(path, [...params.args, `--inspect=:${port}`, `-i`], {
       stdio: ['pipe', 1, 2], detached: !this.isWindows, windowsHide: this.isWindows,
       env: { ...process.env, ...params.envs, }, cwd: params.cwd,
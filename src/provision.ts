@@ -0,0 +1,392 @@
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { spawn, execSync } from 'child_process';
+import { createGunzip } from 'zlib';
+import { isAbsolute, join, resolve } from 'path';
+import { promisify } from 'util';
+import * as stream from 'stream';
+import { EventEmitter } from 'events';
+import Bluebird from 'bluebird';
+import _ from 'lodash';
+import { nanoid } from 'nanoid';
+import extractZip from 'extract-zip';
+import { Configuration, ProvisionCommand, provisionCommandSchema, ProvisionTask } from './types';
+import { getFileNameFromUrl, ProcessResult, saveUrlToFile, Semaphore } from './utils';
+import { logger } from './logger';
+
+const tarFs = require('tar-fs');
+
+export interface ProvisionContext {
+  downloadFolder: string;
+  platformName: string;
+  tags: string[];
+  onOutput?: (data: string) => void;  // receive progress and output of commands as they are produced
+}
+
+export type StepStatus = 'success' | 'failed';
+
+export interface StepResult {
+  step: string;  // download, checksum, extract, cmds[i] or rollback[i]
+  status: StepStatus;
+  duration: number;  // in milliseconds
+  message?: string;
+  attempts?: ProcessResult[];
+}
+
+export interface TaskResult {
+  isSuccess: boolean;
+  skipped?: string;  // reason to skip the task
+  failedStep?: string;
+  error?: string;
+  steps: StepResult[];
+  results: ProcessResult[];  // result of each command, kept for compatibility
+}
+
+class StepError extends Error {
+  constructor(message: string, public readonly attempts?: ProcessResult[]) {
+    super(message);
+  }
+}
+
+/**
+ * Return the reason if task should be skipped according to its `when` and `creates` fields.
+ */
+export function getProvisionTaskSkipReason(task: ProvisionTask, ctx: Omit<ProvisionContext, 'downloadFolder'>): string | undefined {
+  const platformNames = task.when?.platformName;
+  if (platformNames?.length && !platformNames.some(name => name.toLowerCase() === ctx.platformName.toLowerCase())) {
+    return `platformName ${ctx.platformName} is not one of ${platformNames.join(', ')}`;
+  }
+  const missingTags = (task.when?.tags || []).filter(tag => !ctx.tags.includes(tag));
+  if (missingTags.length) {
+    return `tags ${missingTags.join(', ')} are missing`;
+  }
+  if (task.creates && fs.existsSync(task.creates)) {
+    return `${task.creates} already exists`;
+  }
+}
+
+/**
+ * Run a provision task step by step: download, checksum, extract and then cmds.
+ * The task stops at the first failed step, and its rollback commands are executed if there are any.
+ */
+export async function runProvisionTask(task: ProvisionTask, ctx: ProvisionContext): Promise<TaskResult> {
+  const taskResult: TaskResult = { isSuccess: true, steps: [], results: [] };
+
+  const skipped = getProvisionTaskSkipReason(task, ctx);
+  if (skipped) {
+    logger.info(`skip provision task: ${skipped}`);
+    return { ...taskResult, skipped };
+  }
+
+  const vars: { [key: string]: string } = {};
+
+  const runStep = async (step: string, cb: () => Promise<ProcessResult[] | void>) => {
+    const start = Date.now();
+    ctx.onOutput?.(`> ${step}\n`);
+    try {
+      const attempts = await cb();
+      taskResult.steps.push({ step, status: 'success', duration: Date.now() - start, attempts: attempts || undefined });
+      if (attempts) taskResult.results.push(attempts[attempts.length - 1]);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      const attempts = e instanceof StepError ? e.attempts : undefined;
+      logger.error(`provision step ${step} failed: ${message}`);
+      ctx.onOutput?.(`> ${step} failed: ${message}\n`);
+      taskResult.steps.push({ step, status: 'failed', duration: Date.now() - start, message, attempts });
+      if (attempts) taskResult.results.push(attempts[attempts.length - 1]);
+      throw e;
+    }
+  }
+
+  try {
+    if (task.download) {
+      const download = task.download;
+      const downloadFilePath = join(ctx.downloadFolder, getFileNameFromUrl(download));
+      vars.download_file_path = downloadFilePath;
+      await runStep('download', async () => {
+        logger.info(`start to download ${download} to ${downloadFilePath}`);
+        await saveUrlToFile(download, downloadFilePath);
+      });
+      if (task.checksum) {
+        const checksum = task.checksum;
+        await runStep('checksum', () => verifyChecksum(downloadFilePath, checksum));
+      }
+    }
+    if (task.extract) {
+      const extractPath = isAbsolute(task.extract) ? task.extract : resolve(ctx.downloadFolder, task.extract);
+      vars.extract_path = extractPath;
+      await runStep('extract', async () => {
+        if (!vars.download_file_path) throw Error(`download is required to extract`);
+        logger.info(`start to extract ${vars.download_file_path} to ${extractPath}`);
+        await extractArchive(vars.download_file_path, extractPath);
+      });
+    }
+    for (const [i, command] of task.cmds.entries()) {
+      await runStep(`cmds[${i}]`, () => runCommand(toProvisionCommand(command), vars, ctx.onOutput));
+    }
+  } catch (e) {
+    taskResult.isSuccess = false;
+    const failed = taskResult.steps[taskResult.steps.length - 1];
+    taskResult.failedStep = failed?.step;
+    taskResult.error = failed?.message;
+    // commands of rollback are best effort, all of them are executed even if some fail
+    for (const [i, command] of (task.rollback || []).entries()) {
+      await runStep(`rollback[${i}]`, () => runCommand(toProvisionCommand(command), vars, ctx.onOutput)).catch(() => undefined);
+    }
+  }
+  return taskResult;
+}
+
+function toProvisionCommand(command: string | ProvisionCommand): ProvisionCommand {
+  return 'string' === typeof command ? provisionCommandSchema.validateSync({ cmd: command }) : command;
+}
+
+async function verifyChecksum(path: string, checksum: string) {
+  const expected = checksum.slice('sha256:'.length).toLowerCase();
+  const hash = createHash('sha256');
+  await promisify(stream.pipeline)(fs.createReadStream(path), hash);
+  const actual = hash.digest('hex');
+  if (actual !== expected) {
+    throw Error(`checksum mismatch, expected sha256:${expected} but got sha256:${actual}`);
+  }
+}
+
+export async function extractArchive(path: string, dest: string) {
+  await fs.promises.mkdir(dest, { recursive: true });
+  const lowerPath = path.toLowerCase();
+  if (lowerPath.endsWith('.zip')) {
+    await extractZip(path, { dir: dest });
+  } else if (lowerPath.endsWith('.tar.gz') || lowerPath.endsWith('.tgz')) {
+    await promisify(stream.pipeline)(fs.createReadStream(path), createGunzip(), tarFs.extract(dest));
+  } else if (lowerPath.endsWith('.tar')) {
+    await promisify(stream.pipeline)(fs.createReadStream(path), tarFs.extract(dest));
+  } else {
+    throw Error(`unsupported archive format: ${path}, only zip, tar.gz and tar are supported`);
+  }
+}
+
+async function runCommand(command: ProvisionCommand, vars: { [key: string]: string }, onOutput?: (data: string) => void): Promise<ProcessResult[]> {
+  const cmd = Object.entries(vars).reduce((cmd, [key, value]) => cmd.split(`{${key}}`).join(value), command.cmd);
+  const attempts: ProcessResult[] = [];
+  for (let i = 0; i <= command.retries; i++) {
+    if (i > 0) {
+      logger.warn(`retry cmd (${i}/${command.retries}): ${cmd}`);
+      await Bluebird.delay(command.retryInterval * 1e3);
+    }
+    logger.info(`start to execute cmd: ${cmd}`);
+    onOutput?.(`$ ${cmd}\n`);
+    const result = await execCommand(cmd, command.timeout, onOutput);
+    attempts.push(result);
+    if (0 === result.code) return attempts;
+  }
+  const last = attempts[attempts.length - 1];
+  throw new StepError(last.timedOut ?
+    `cmd timed out after ${command.timeout}s: ${cmd}` :
+    `cmd exited with code ${last.code}: ${cmd}`, attempts);
+}
+
+function execCommand(cmd: string, timeout?: number, onOutput?: (data: string) => void): Promise<ProcessResult> {
+  const isWindows = 'win32' === process.platform;
+  return new Promise((resolve, reject) => {
+    let stdout = '', stderr = '', timedOut = false;
+    // run in a new process group so that the whole group can be killed on timeout
+    const child = spawn(cmd, { shell: true, detached: !isWindows, windowsHide: isWindows });
+    child.stdout?.on('data', chunk => {
+      stdout += chunk;
+      onOutput?.(String(chunk));
+    });
+    child.stderr?.on('data', chunk => {
+      stderr += chunk;
+      onOutput?.(String(chunk));
+    });
+    const timer = timeout ? setTimeout(() => {
+      timedOut = true;
+      logger.warn(`kill cmd after ${timeout}s: ${cmd}`);
+      try {
+        if (isWindows) {
+          execSync(`taskkill /T /F /PID ${child.pid}`);
+        } else if (child.pid) {
+          process.kill(-child.pid, 'SIGKILL');
+        }
+      } catch (e) {
+        logger.error(`fail to kill process group ${child.pid}`, e);
+      }
+    }, timeout * 1e3) : undefined;
+    child.on('error', e => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    child.on('close', code => {
+      clearTimeout(timer);
+      resolve({ stdout, stderr, code: null === code ? -1 : code, timedOut: timedOut || undefined });
+    });
+  });
+}
+
+export type ProvisionJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface ProvisionJob {
+  id: string;
+  status: ProvisionJobStatus;
+  task: ProvisionTask;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  exitCodes: number[];
+  result?: TaskResult;
+  error?: string;
+}
+
+interface ActiveProvisionJob {
+  job: ProvisionJob;
+  output: string[];
+  events: EventEmitter;
+}
+
+/**
+ * Run provision tasks in background one by one.
+ * Each job is kept in its own folder under tmpFolder/provision-jobs, with job.json for status and output.log for output,
+ * so that the history of what has been run on the node can be audited.
+ */
+export class ProvisionJobManager {
+
+  private readonly lock = new Semaphore(1);
+  private readonly activeJobs = new Map<string, ActiveProvisionJob>();
+
+  constructor(
+    private readonly config: Configuration,
+  ) { }
+
+  get jobsFolder() {
+    return join(this.config.tmpFolder, 'provision-jobs');
+  }
+
+  async init() {
+    await fs.promises.mkdir(this.jobsFolder, { recursive: true });
+    // jobs that didn't finish before the last exit
+    for (const job of await this.getJobs()) {
+      if ('queued' === job.status || 'running' === job.status) {
+        await this.saveJob({ ...job, status: 'failed', error: `interrupted by restart`, finishedAt: Date.now() });
+      }
+    }
+  }
+
+  async submit(task: ProvisionTask): Promise<ProvisionJob> {
+    const job: ProvisionJob = { id: nanoid(), status: 'queued', task, createdAt: Date.now(), exitCodes: [] };
+    await fs.promises.mkdir(this.getJobFolder(job.id), { recursive: true });
+    await this.saveJob(job);
+    this.activeJobs.set(job.id, { job, output: [], events: new EventEmitter() });
+    this.run(job.id).catch(e => logger.error(`fail to run provision job ${job.id}`, e));
+    await this.removeExpiredJobs();
+    return job;
+  }
+
+  async getJob(id: string): Promise<ProvisionJob | undefined> {
+    const active = this.activeJobs.get(id);
+    if (active) return active.job;
+    if (!isValidJobId(id)) return;
+    try {
+      return JSON.parse(await fs.promises.readFile(join(this.getJobFolder(id), 'job.json'), 'utf-8'));
+    } catch (e) {
+      return;
+    }
+  }
+
+  /**
+   * Return jobs in the order of creation, the latest first.
+   */
+  async getJobs(): Promise<ProvisionJob[]> {
+    const ids = await fs.promises.readdir(this.jobsFolder);
+    const jobs = await Promise.all(ids.map(id => this.getJob(id)));
+    return _.orderBy(jobs.filter((job): job is ProvisionJob => !!job), 'createdAt', 'desc');
+  }
+
+  /**
+   * Return a stream of the output of job, which follows the job until it finishes.
+   */
+  async getJobLog(id: string): Promise<stream.Readable | undefined> {
+    const active = this.activeJobs.get(id);
+    if (active) {
+      const log = new stream.PassThrough();
+      log.write(active.output.join(''));
+      const onOutput = (data: string) => log.write(data);
+      const onFinish = () => log.end();
+      active.events.on('output', onOutput);
+      active.events.once('finish', onFinish);
+      log.on('close', () => {
+        active.events.off('output', onOutput);
+        active.events.off('finish', onFinish);
+      });
+      return log;
+    }
+    if (!await this.getJob(id)) return;
+    const logFile = join(this.getJobFolder(id), 'output.log');
+    return fs.existsSync(logFile) ? fs.createReadStream(logFile) : stream.Readable.from([]);
+  }
+
+  private async run(id: string) {
+    const active = this.activeJobs.get(id)!;
+    const jobFolder = this.getJobFolder(id);
+    const downloadFolder = join(jobFolder, 'downloads');
+    const logWriter = fs.createWriteStream(join(jobFolder, 'output.log'), { flags: 'a' });
+    const onOutput = (data: string) => {
+      active.output.push(data);
+      logWriter.write(data);
+      active.events.emit('output', data);
+    };
+
+    try {
+      await this.lock.withLock(async () => {
+        active.job = { ...active.job, status: 'running', startedAt: Date.now() };
+        await this.saveJob(active.job);
+        logger.info(`start to run provision job ${id}: %j`, active.job.task);
+        await fs.promises.mkdir(downloadFolder, { recursive: true });
+        try {
+          const result = await runProvisionTask(active.job.task, {
+            downloadFolder,
+            platformName: this.config.platformName,
+            tags: this.config.tags,
+            onOutput,
+          });
+          active.job = {
+            ...active.job,
+            status: result.isSuccess ? 'succeeded' : 'failed',
+            exitCodes: result.results.map(r => r.code),
+            result,
+            error: result.error,
+          };
+        } finally {
+          await fs.promises.rm(downloadFolder, { recursive: true, force: true });
+        }
+      });
+    } catch (e) {
+      onOutput(`> job failed: ${e.message}\n`);
+      active.job = { ...active.job, status: 'failed', error: e.message };
+    } finally {
+      active.job = { ...active.job, finishedAt: Date.now() };
+      logger.info(`provision job ${id} ${active.job.status}`);
+      await new Promise(resolve => logWriter.end(resolve));
+      await this.saveJob(active.job);
+      this.activeJobs.delete(id);
+      active.events.emit('finish');
+    }
+  }
+
+  private async removeExpiredJobs() {
+    const jobs = await this.getJobs();
+    for (const job of jobs.slice(this.config.provision.jobHistory)) {
+      if (this.activeJobs.has(job.id)) continue;
+      await fs.promises.rm(this.getJobFolder(job.id), { recursive: true, force: true });
+    }
+  }
+
+  private async saveJob(job: ProvisionJob) {
+    await fs.promises.writeFile(join(this.getJobFolder(job.id), 'job.json'), JSON.stringify(job, null, 2));
+  }
+
+  private getJobFolder(id: string) {
+    return join(this.jobsFolder, id);
+  }
+}
+
+const isValidJobId = (id: string) => /^[\w-]+$/.test(id);
@@ -0,0 +1,102 @@
+import CDP from 'chrome-remote-interface';
+import * as fs from 'fs';
+import { join } from 'path';
+import _ from 'lodash';
+import { logger } from './logger';
+
+export interface RecordOptions {
+  video: boolean;
+  screenshots: boolean;
+  screenshotInterval: number;
+}
+
+interface ArtifactRecord {
+  file: string;
+  timestamp: number;
+}
+
+/**
+ * Record screencast frames and periodic screenshots of a page via CDP.
+ * Frames are saved as images, their timestamps are written to index.json when recorder stops.
+ */
+export class SessionRecorder {
+
+  private client?: CDP.Client;
+  private timer?: NodeJS.Timer;
+  private seq: number = 0;
+  private readonly records: { video: ArtifactRecord[], screenshots: ArtifactRecord[] } = { video: [], screenshots: [] };
+
+  constructor(
+    public readonly folder: string,
+    private readonly options: RecordOptions,
+  ) { }
+
+  async start(debuggerAddress: string) {
+    await fs.promises.mkdir(this.folder, { recursive: true });
+    const [host, port] = debuggerAddress.split(':');
+    this.client = await CDP({ host, port: Number(port) });
+    const { Page } = this.client;
+    await Page.enable();
+
+    if (this.options.video) {
+      this.client.on('Page.screencastFrame', async ({ data, metadata, sessionId }) => {
+        try {
+          await Page.screencastFrameAck({ sessionId });
+          const timestamp = metadata.timestamp ? metadata.timestamp * 1e3 : Date.now();
+          await this.saveImage('video', 'jpg', data, timestamp);
+        } catch (e) {
+          logger.warn(`ignore error during save screencast frame`, e);
+        }
+      });
+      await Page.startScreencast({ format: 'jpeg', quality: 60 });
+    }
+
+    if (this.options.screenshots) {
+      this.timer = setInterval(async () => {
+        try {
+          const { data } = await Page.captureScreenshot({ format: 'png' });
+          await this.saveImage('screenshots', 'png', data, Date.now());
+        } catch (e) {
+          logger.warn(`ignore error during capture screenshot`, e);
+        }
+      }, this.options.screenshotInterval * 1e3);
+    }
+  }
+
+  async stop() {
+    if (this.timer) clearInterval(this.timer);
+    if (this.client) {
+      if (this.options.video) {
+        await this.client.Page.stopScreencast().catch(e => logger.warn(`ignore error during stop screencast`, e));
+      }
+      await this.client.close().catch(e => logger.warn(`ignore error during close cdp client`, e));
+    }
+    await fs.promises.writeFile(join(this.folder, 'index.json'), JSON.stringify(this.records, null, 2));
+  }
+
+  private async saveImage(type: 'video' | 'screenshots', ext: string, base64: string, timestamp: number) {
+    const file = `${type}-${_.padStart(String(this.seq++), 6, '0')}.${ext}`;
+    await fs.promises.writeFile(join(this.folder, file), Buffer.from(base64, 'base64'));
+    this.records[type].push({ file, timestamp });
+  }
+}
+
+/**
+ * Remove artifacts that are older than maxAge (in seconds), and keep at most maxCount of them.
+ */
+export async function cleanArtifacts(root: string, maxAge: number, maxCount: number) {
+  if (!fs.existsSync(root)) return;
+  const now = Date.now();
+  const entries = await fs.promises.readdir(root, { withFileTypes: true });
+  const folders = await Promise.all(entries.filter(e => e.isDirectory()).map(async e => {
+    const path = join(root, e.name);
+    const stat = await fs.promises.stat(path);
+    return { path, mtime: stat.mtimeMs };
+  }));
+  const sorted = _.orderBy(folders, f => f.mtime, 'desc');
+  for (const [i, folder] of sorted.entries()) {
+    if (i < maxCount && folder.mtime + maxAge * 1e3 > now) continue;
+    logger.info(`remove expired artifacts: ${folder.path}`);
+    await fs.promises.rm(folder.path, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,245 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import { execFile } from 'child_process';
+import { basename, join } from 'path';
+import { promisify } from 'util';
+import _ from 'lodash';
+import { nanoid } from 'nanoid';
+import { DriverConfiguration } from './types';
+import { isHttpUrl, saveUrlToFile } from './utils';
+import { extractArchive } from './provision';
+import { parseVersion } from './version';
+import { logger } from './logger';
+
+interface DriverMirror {
+  name: string;
+  mirror: string;
+  versionUrl?: string;
+  mirrorVersionUrl?: string;  // versionUrl used when mirror is overridden, if the default one is not under mirror
+  downloadUrl: string;
+  platforms: { [arch: string]: string };  // keyed by `${process.platform}-${process.arch}`
+  browserBinaries: { [platform: string]: string[] };  // keyed by process.platform
+  capabilityKey: string;
+}
+
+const WINDOWS_PROGRAM_FOLDERS = ['%PROGRAMFILES%', '%PROGRAMFILES(X86)%', '%LOCALAPPDATA%'];
+
+/**
+ * Official sites of webdrivers, they can be replaced with mirrors via `resolver` of driver configuration.
+ * The following variables are supported in urls:
+ *   {mirror}: base url or local folder of mirror
+ *   {major}: major version of browser
+ *   {browserVersion}: full version of browser
+ *   {version}: version of webdriver
+ *   {platform}: platform name used by the site, e.g. linux64
+ *   {os}: LINUX, MACOS or WINDOWS
+ */
+const DRIVER_MIRRORS: { [browserName: string]: DriverMirror } = {
+  chrome: {
+    name: 'chromedriver',
+    mirror: 'https://storage.googleapis.com/chrome-for-testing-public',
+    versionUrl: 'https://googlechromelabs.github.io/chrome-for-testing/LATEST_RELEASE_{major}',
+    mirrorVersionUrl: '{mirror}/LATEST_RELEASE_{major}',
+    downloadUrl: '{mirror}/{version}/{platform}/chromedriver-{platform}.zip',
+    platforms: { 'linux-x64': 'linux64', 'darwin-x64': 'mac-x64', 'darwin-arm64': 'mac-arm64', 'win32-x64': 'win64', 'win32-ia32': 'win32' },
+    browserBinaries: {
+      darwin: ['/Applications/Google Chrome.app/Contents/MacOS/Google Chrome'],
+      linux: ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser'],
+      win32: WINDOWS_PROGRAM_FOLDERS.map(folder => `${folder}\\Google\\Chrome\\Application\\chrome.exe`),
+    },
+    capabilityKey: 'goog:chromeOptions',
+  },
+  MicrosoftEdge: {
+    name: 'msedgedriver',
+    mirror: 'https://msedgedriver.microsoft.com',
+    versionUrl: '{mirror}/LATEST_RELEASE_{major}_{os}',
+    downloadUrl: '{mirror}/{version}/edgedriver_{platform}.zip',
+    platforms: { 'linux-x64': 'linux64', 'darwin-x64': 'mac64', 'darwin-arm64': 'mac64_m1', 'win32-x64': 'win64', 'win32-ia32': 'win32' },
+    browserBinaries: {
+      darwin: ['/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge'],
+      linux: ['microsoft-edge', 'microsoft-edge-stable'],
+      win32: WINDOWS_PROGRAM_FOLDERS.map(folder => `${folder}\\Microsoft\\Edge\\Application\\msedge.exe`),
+    },
+    capabilityKey: 'ms:edgeOptions',
+  },
+  firefox: {
+    name: 'geckodriver',
+    mirror: 'https://github.com/mozilla/geckodriver/releases/download',
+    // geckodriver is not released with firefox, the version is picked from GECKODRIVER_VERSIONS if versionUrl is not set
+    downloadUrl: '{mirror}/v{version}/geckodriver-v{version}-{platform}',
+    platforms: {
+      'linux-x64': 'linux64.tar.gz', 'linux-arm64': 'linux-aarch64.tar.gz', 'darwin-x64': 'macos.tar.gz',
+      'darwin-arm64': 'macos-aarch64.tar.gz', 'win32-x64': 'win64.zip', 'win32-ia32': 'win32.zip',
+    },
+    browserBinaries: {
+      darwin: ['/Applications/Firefox.app/Contents/MacOS/firefox'],
+      linux: ['firefox'],
+      win32: WINDOWS_PROGRAM_FOLDERS.map(folder => `${folder}\\Mozilla Firefox\\firefox.exe`),
+    },
+    capabilityKey: 'moz:firefoxOptions',
+  },
+};
+
+// geckodriver version and the minimal version of firefox it supports, the latest first
+// ref: https://firefox-source-docs.mozilla.org/testing/geckodriver/Support.html
+const GECKODRIVER_VERSIONS: [string, number][] = [
+  ['0.36.0', 128],
+  ['0.35.0', 115],
+  ['0.33.0', 102],
+  ['0.31.0', 91],
+  ['0.30.0', 78],
+  ['0.29.1', 60],
+];
+
+const OS_NAMES: { [platform: string]: string } = { linux: 'LINUX', darwin: 'MACOS', win32: 'WINDOWS' };
+
+/**
+ * Detect the version of installed browser,
+ * from the binary set in resolver or default capabilities, or by probing the known install paths.
+ */
+export async function detectBrowserVersion(driverConfig: DriverConfiguration): Promise<string | undefined> {
+  const mirror = getDriverMirror(driverConfig);
+  const binary = driverConfig.resolver?.browserBinary ||
+    (driverConfig.defaultCapabilities as any)[mirror.capabilityKey]?.binary;
+  const candidates: string[] = binary ? [binary] : (mirror.browserBinaries[process.platform] || []).map(expandWindowsEnvs);
+  for (const candidate of candidates) {
+    try {
+      const output = 'win32' === process.platform ?
+        // browsers on windows don't print version to console
+        await execFileWithTimeout('powershell', ['-NoProfile', '-Command', `(Get-Item '${candidate}').VersionInfo.ProductVersion`]) :
+        await execFileWithTimeout(candidate, ['--version']);
+      const version = output.match(/\d+(\.\d+)+/)?.[0];
+      if (version) return version;
+    } catch (e) {
+      logger.debug(`fail to detect browser version with ${candidate}: ${e.message}`);
+    }
+  }
+}
+
+/**
+ * Resolve the webdriver that matches the installed browser, return the path of its binary.
+ * Webdrivers are cached in webdriverFolder by version, so they are only downloaded once.
+ */
+export async function resolveWebdriver(driverConfig: DriverConfiguration, webdriverFolder: string): Promise<string> {
+  const mirror = getDriverMirror(driverConfig);
+  const browserVersion = await detectBrowserVersion(driverConfig);
+  if (!browserVersion) throw Error(`cannot detect the version of ${driverConfig.browserName}`);
+
+  const platform = mirror.platforms[`${process.platform}-${process.arch}`];
+  if (!platform) throw Error(`${mirror.name} is not available on ${process.platform}-${process.arch}`);
+
+  const vars: { [key: string]: string } = {
+    mirror: _.trimEnd(mirror.mirror, '/'),
+    major: browserVersion.split('.')[0],
+    browserVersion,
+    platform,
+    os: OS_NAMES[process.platform] || '',
+  };
+  vars.version = await resolveDriverVersion(mirror, vars);
+
+  const folder = join(webdriverFolder, mirror.name, vars.version);
+  const cached = await findBinary(folder, mirror.name);
+  if (cached) {
+    logger.info(`use cached ${mirror.name} ${vars.version} for ${driverConfig.browserName} ${browserVersion}: ${cached}`);
+    return cached;
+  }
+
+  const downloadUrl = renderUrl(mirror.downloadUrl, vars);
+  logger.info(`download ${mirror.name} ${vars.version} for ${driverConfig.browserName} ${browserVersion}: ${downloadUrl}`);
+  // prepare in a temporary folder so that a broken download won't be taken as cached
+  const tmpFolder = `${folder}.${nanoid()}.tmp`;
+  await fs.promises.mkdir(tmpFolder, { recursive: true });
+  try {
+    const archive = join(tmpFolder, basename(downloadUrl.split('?')[0]));
+    if (isHttpUrl(downloadUrl)) {
+      await saveUrlToFile(downloadUrl, archive);
+    } else {
+      await fs.promises.copyFile(downloadUrl, archive);
+    }
+    await extractArchive(archive, tmpFolder);
+    await fs.promises.rm(archive);
+    const binary = await findBinary(tmpFolder, mirror.name);
+    if (!binary) throw Error(`${mirror.name} is not found in ${downloadUrl}`);
+    await fs.promises.chmod(binary, 0o755);
+    await fs.promises.rm(folder, { recursive: true, force: true });
+    await fs.promises.rename(tmpFolder, folder);
+  } finally {
+    await fs.promises.rm(tmpFolder, { recursive: true, force: true });
+  }
+  return (await findBinary(folder, mirror.name))!;
+}
+
+/**
+ * Tell if a session failed to be created because webdriver doesn't support the version of browser,
+ * e.g. "This version of ChromeDriver only supports Chrome version 103"
+ */
+export function isVersionMismatchError(e: any): boolean {
+  const message = [e?.message, e?.response?.data?.value?.message].filter(Boolean).join('\n');
+  return /only supports .*version/i.test(message);
+}
+
+function getDriverMirror(driverConfig: DriverConfiguration): DriverMirror {
+  const mirror = DRIVER_MIRRORS[driverConfig.browserName];
+  if (!mirror) throw Error(`webdriver of ${driverConfig.browserName} cannot be resolved`);
+  const overrides = _.omitBy(_.pick(driverConfig.resolver, 'mirror', 'versionUrl', 'downloadUrl'), _.isNil);
+  if (overrides.mirror && !overrides.versionUrl && mirror.mirrorVersionUrl) {
+    overrides.versionUrl = mirror.mirrorVersionUrl;
+  }
+  return { ...mirror, ...overrides };
+}
+
+async function resolveDriverVersion(mirror: DriverMirror, vars: { [key: string]: string }): Promise<string> {
+  if (mirror.versionUrl) {
+    const data = await readMirrorFile(renderUrl(mirror.versionUrl, vars));
+    // some sites serve the version in UTF-16 with BOM
+    const text = (0xff === data[0] && 0xfe === data[1]) ? data.toString('utf16le') : data.toString('utf-8');
+    const version = text.replace(/^\uFEFF/, '').trim();
+    if (!parseVersion(version)) throw Error(`invalid version of ${mirror.name}: ${version}`);
+    return version;
+  }
+  if ('geckodriver' === mirror.name) {
+    const major = Number(vars.major);
+    const matched = GECKODRIVER_VERSIONS.find(([_version, minFirefox]) => major >= minFirefox);
+    if (!matched) throw Error(`no geckodriver supports firefox ${vars.browserVersion}`);
+    return matched[0];
+  }
+  throw Error(`versionUrl of ${mirror.name} is required`);
+}
+
+async function readMirrorFile(url: string): Promise<Buffer> {
+  if (isHttpUrl(url)) {
+    const res = await axios.get(url, { responseType: 'arraybuffer', timeout: 30e3 });
+    return Buffer.from(res.data);
+  }
+  return await fs.promises.readFile(url);
+}
+
+async function findBinary(folder: string, name: string): Promise<string | undefined> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(folder, { withFileTypes: true });
+  } catch (e) {
+    return;
+  }
+  for (const entry of entries) {
+    if (entry.isFile() && [name, `${name}.exe`].includes(entry.name)) return join(folder, entry.name);
+  }
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const found = await findBinary(join(folder, entry.name), name);
+    if (found) return found;
+  }
+}
+
+function renderUrl(template: string, vars: { [key: string]: string }) {
+  return template.replace(/\{(\w+)\}/g, (match, key) => undefined === vars[key] ? match : vars[key]);
+}
+
+function expandWindowsEnvs(path: string) {
+  return path.replace(/%([^%]+)%/g, (match, name) => process.env[name] || match);
+}
+
+async function execFileWithTimeout(file: string, args: string[]) {
+  const { stdout } = await promisify(execFile)(file, args, { timeout: 10e3, windowsHide: true });
+  return stdout;
+}
@@ -1,19 +1,30 @@
 import _ from "lodash";
 import * as yup from 'yup';
-import { AutoCmdError, Configuration, DriverConfiguration, DriverDto, driverDtoSchema, NodeDto, nodeDtoSchema, RegisterDto, WebdriverError } from './types'; 
+import { AutoCmdError, Configuration, DriverConfiguration, DriverDto, driverDtoSchema, FleetProvisionRequest, NodeDto, nodeDtoSchema, RegisterDto, SessionDetailDto, sessionDetailDtoSchema, WebdriverError } from './types'; 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
-import { alwaysTrue, identity, retry, Semaphore } from './utils';
+import { alwaysTrue, identity, LruCache, retry, toWebsocketUrl } from './utils';
 import { Either, Left, Right } from 'purify-ts';
 import Bluebird from 'bluebird';
 import { Watchdog } from './utils';
 import { RequestCapabilities, ResponseCapabilities, createSession, ISession } from './session';
-import { AUTO_CMD_ERRORS, LONG_TIMEOUT_IN_MS, REGISTER_TIMEOUT_IN_MS, WEBDRIVER_ERRORS } from './constants';
+import { AUTO_CMD_ERRORS, LONG_TIMEOUT_IN_MS, NODE_STATE_STALE_TIMEOUT_IN_MS, PROVISION_JOB_POLL_INTERVAL_IN_MS, REGISTER_TIMEOUT_IN_MS, REQUEST_ID_HEADER, WEBDRIVER_ERRORS } from './constants';
 import { ProcessManager } from "./process";
 import { Context } from "koa";
-import { join } from 'path';
+import { isAbsolute, join, relative, sep } from 'path';
 import send from 'koa-send';
 import * as fs from 'fs';
 import { setHttpResponse } from "./controllers";
+import { Slot, SlotStrategies } from "./strategy";
+import { filterByVersion, keepHighestVersion } from "./version";
+import { cleanArtifacts } from "./recorder";
+import { metrics, onCollect } from "./metrics";
+import { configureLogger, LogFormat, Logger, logger, LogLevel } from "./logger";
+import { IHubStore } from "./store";
+import { Auth } from "./auth";
+import { createHttpsAgent } from "./tls";
+import { ProvisionJob, TaskResult } from "./provision";
+import { isVersionMismatchError, resolveWebdriver } from "./resolver";
+import { WebdriverProcessPool } from "./pool";
 
 export interface TerminateOptions {
   confirmed: boolean;
@@ -21,18 +32,47 @@ export interface TerminateOptions {
   cancel: boolean;
 }
 
-interface RegistedNode {
+export interface RegistedNode {
   url: string;
   node: NodeDto;
   expireAfter: number;
+  updatedAt: number;
 }
 
-interface Candidate {
+export interface NodeProvisionResult {
+  nodeId: string;
+  nodeUrl: string;
+  status: 'succeeded' | 'failed' | 'skipped';
+  jobId?: string;
+  result?: TaskResult;
+  error?: string;
+}
+
+export interface FleetProvisionReport {
+  isSuccess: boolean;
+  stopped?: string;  // reason to stop the rollout
+  nodes: NodeProvisionResult[];
+}
+
+interface Candidate extends Slot {
+  nodeId: string;
   nodeUrl: string;
   driver: DriverDto;
+  request: RequestCapabilities;
 }
 
-interface SessionRecord {
+interface DispatchedRequest {
+  candidate: Candidate;
+  resPromise: Promise<AxiosResponse>;
+}
+
+interface PendingRequest {
+  request: RequestCapabilities;
+  priority: number;
+  resolve: (result?: DispatchedRequest) => void;
+}
+
+export interface SessionRecord {
   nodeUrl: string;
   sessionId: string;
   createdAt: number;
@@ -43,94 +83,321 @@ export class HubService {
 
   private nodesIndex = new Map<string, RegistedNode>();
   private sessionCache = new Map<string, SessionRecord>();
-  private createSessionMutex = new Semaphore(1);
+  private endedSessions = new LruCache<string, SessionRecord>(1000);
+  private reservedSlots = new Map<string, number>();
+  private slotStrategies: SlotStrategies;
+  private pendingRequests: PendingRequest[] = [];
+  private dispatching = false;
+  private dispatchPromise?: Promise<void>;
+  private redispatch = false;
+  private persistTimer?: NodeJS.Timeout;
 
   constructor(
     private config: Configuration,
     private axios: AxiosInstance,
-  ) { }
+    private store?: IHubStore,
+  ) {
+    this.slotStrategies = new SlotStrategies(config.slotStrategy, 'random');
+  }
 
-  public init() {
+  public async init() {
+    await this.restore();
+    onCollect(() => {
+      metrics.registeredNodes.set(this.getNodes().length);
+      metrics.sessionCacheSize.set(this.sessionCache.size);
+      metrics.sessionQueueSize.set(this.pendingRequests.length);
+    });
     const sessionMaxAge = 300e3;  // 5 min in ms
     setInterval(() => this.cleanExpiredSessions(sessionMaxAge), sessionMaxAge);
   }
 
+  private async restore() {
+    if (!this.store) return;
+    const state = await this.store.load();
+    if (!state) return;
+    // give nodes a chance to register again before their records expire,
+    // their states are treated as stale until then.
+    const expireAfter = Date.now() + REGISTER_TIMEOUT_IN_MS;
+    state.nodes.forEach(node => this.nodesIndex.set(node.node.config.uuid, { ...node, expireAfter, updatedAt: 0 }));
+    state.sessions.forEach(session => this.sessionCache.set(session.sessionId, session));
+    logger.info(`restore ${state.nodes.length} nodes and ${state.sessions.length} sessions from store`);
+  }
+
+  private persist() {
+    if (!this.store || this.persistTimer) return;
+    // merge frequent changes into one write
+    this.persistTimer = setTimeout(async () => {
+      this.persistTimer = undefined;
+      try {
+        await this.store!.save({
+          nodes: [...this.nodesIndex.values()],
+          sessions: [...this.sessionCache.values()],
+        });
+      } catch (e) {
+        logger.error(`fail to persist hub state`, e);  // suppress error
+      }
+    }, 1e3);
+  }
+
   async getBestMatch(request: RequestCapabilities): Promise<Candidate | undefined> {
-    const nodeUrls = this.getNodes().map(node => node.url);
-    const candidates: (Candidate | undefined)[] = await Bluebird.map(nodeUrls, async nodeUrl => {
+    const now = Date.now();
+    const [freshNodes, staleNodes] = _.partition(this.getNodes(), node => node.updatedAt + NODE_STATE_STALE_TIMEOUT_IN_MS > now);
+
+    // pick up candidate from the node states pushed by nodes,
+    // the merged capabilities of W3C firstMatch are tried in order
+    for (const matchRequest of request.firstMatches) {
+      let candidates = _.flatMap(freshNodes, node => this.getLocalCandidates(node, matchRequest));
+      if (matchRequest.browserVersion) {
+        candidates = keepHighestVersion(candidates, c => c.driver.config.browserVersion);
+      }
+      candidates = this.collapseCandidatesByNode(candidates);
+      if (candidates.length) return this.slotStrategies.select(candidates, matchRequest);
+    }
+
+    // fallback to ask nodes directly when their states are stale
+    const endTimer = metrics.bestMatchDuration.startTimer();
+    const remoteCandidates: (Candidate | undefined)[] = await Bluebird.map(staleNodes, async node => {
       try {
         const res = await this.axios.request({
           method: 'POST',
-          baseURL: nodeUrl,
+          baseURL: node.url,
           url: '/wd/hub/best-match',
           data: request.data,
+          headers: { [REQUEST_ID_HEADER]: request.requestId },
           timeout: 2e3,
         });
         const driver = await driverDtoSchema.validate(res.data, { strict: true });  // skip validate if it is too slow
-        return { nodeUrl, driver };
+        return this.toCandidate(node, driver, request);
       } catch (e) {
-        console.error(e); // supress error
+        logger.error(`fail to get best match from node ${node.url}`, e); // supress error
       }
     });
-    return _.sample(candidates.filter(c => c));
+    endTimer();
+    return this.slotStrategies.select(remoteCandidates.filter((c): c is Candidate => !!c), request);
+  }
+
+  private getLocalCandidates(node: RegistedNode, request: RequestCapabilities): Candidate[] {
+    const nodeId = node.node.config.uuid;
+    if (node.node.terminating || node.node.draining) return [];
+    if (node.node.config.maxSessions - this.getNodeBusySlots(node) <= 0) return [];
+
+    const matchedDrivers = filterByVersion(
+      node.node.drivers.filter(driver => !driver.retiring && isRequestMatch(node.node.config, driver.config, request)),
+      driver => driver.config.browserVersion,
+      request.browserVersion,
+    );
+    return matchedDrivers
+      .filter(driver => driver.config.maxSessions - driver.sessions.length - this.getReservedSlots(nodeId, driver.config.uuid) > 0)
+      .map(driver => this.toCandidate(node, driver, request));
+  }
+
+  /**
+   * Keep one candidate per node, the driver with least busy slots is preferred,
+   * or else nodes with more matched drivers would be weighted higher by strategies like random.
+   */
+  private collapseCandidatesByNode(candidates: Candidate[]): Candidate[] {
+    return _.map(_.groupBy(candidates, c => c.nodeId), nodeCandidates =>
+      _.minBy(nodeCandidates, c => c.driver.sessions.length + this.getReservedSlots(c.nodeId, c.driver.config.uuid))!);
+  }
+
+  private toCandidate(node: RegistedNode, driver: DriverDto, request: RequestCapabilities): Candidate {
+    // hub schedules sessions among nodes, so slot of candidate is measured in node level
+    return {
+      id: node.node.config.uuid,
+      busySlots: this.getNodeBusySlots(node),
+      maxSessions: node.node.config.maxSessions,
+      tags: [...node.node.config.tags, ...driver.config.tags],
+      lastIdleAt: driver.lastIdleAt,
+      nodeId: node.node.config.uuid,
+      nodeUrl: node.url,
+      driver,
+      request,
+    };
+  }
+
+  private getNodeBusySlots(node: RegistedNode) {
+    const nodeId = node.node.config.uuid;
+    return _.sumBy(node.node.drivers, driver => driver.sessions.length + this.getReservedSlots(nodeId, driver.config.uuid));
+  }
+
+  private getReservedSlots(nodeId: string, driverId: string) {
+    return this.reservedSlots.get(`${nodeId}/${driverId}`) || 0;
+  }
+
+  private reserveSlots(candidate: Candidate, n: number) {
+    const key = `${candidate.nodeId}/${candidate.driver.config.uuid}`;
+    const slots = (this.reservedSlots.get(key) || 0) + n;
+    if (slots > 0) {
+      this.reservedSlots.set(key, slots);
+    } else {
+      this.reservedSlots.delete(key);
+    }
   }
 
   async newWebdirverSession(request: RequestCapabilities): Promise<Either<WebdriverError, AxiosResponse>> {
     /**
-     * TODO: optimize when necessary
-     *
-     * Currently to distribute a create session request to registed nodes,
-     * hub service will send best-match requests to all of them to pick up a node to handle it.
-     *
-     * I know that this design is not scale,
-     * but it is easy to reason and to implement, and less error prone.
-     * It should work well when registed nodes are few in number (maybe <100).
-     * I will optimize this when necessary.
+     * Nodes push their states to hub when they register or their sessions change,
+     * so hub can pick up a candidate from its own view and reserve the slot optimistically.
+     * Hub only falls back to send best-match requests to nodes whose states are stale.
      */
 
-    let resPromise: Promise<AxiosResponse>;
-    let candidate: Candidate | undefined;
+    const endTimer = metrics.sessionCreateDuration.startTimer();
+    if (this.pendingRequests.length >= this.config.sessionQueueSize) {
+      metrics.sessionCreateFailures.inc({ reason: 'queue_full' });
+      endTimer({ result: 'failure' });
+      return Left({
+        ...WEBDRIVER_ERRORS.SESSION_NOT_CREATED,
+        message: `session request queue is full (size: ${this.config.sessionQueueSize})`,
+        stacktrace: new Error().stack || '',
+      });
+    }
+
+    const dispatched = this.enqueueSessionRequest(request);
+    await this.dispatchPendingRequests();
+    if (this.config.sessionRequestTimeout <= 0) {
+      // queue is disabled, fail immediately if the request cannot be served right now
+      this.removePendingRequest(request)?.resolve(undefined);
+    }
+
+    const result = await dispatched;
+    if (!result) {
+      metrics.sessionCreateFailures.inc({ reason: 'no_candidate' });
+      endTimer({ result: 'failure' });
+      return Left({
+        ...WEBDRIVER_ERRORS.SESSION_NOT_CREATED,
+        message: `no availabe capbilities could be found`,
+        stacktrace: new Error().stack || '',
+      });
+    }
 
     try {
-      await this.createSessionMutex.wait();
-      candidate = await this.getBestMatch(request);
-      if (!candidate) {
-        return Left({
-          ...WEBDRIVER_ERRORS.SESSION_NOT_CREATED,
-          message: `no availabe capbilities could be found`,
-          stacktrace: new Error().stack || '',
-        });
-      }
-      resPromise = this.axios.request({
-        method: 'POST',
-        baseURL: candidate.nodeUrl,
-        url: '/wd/hub/session',
-        data: request.data,
+      const res = await result.resPromise;
+      endTimer({ result: 'success' });
+      return Right(res);
+    } catch (e) {
+      metrics.sessionCreateFailures.inc({ reason: 'node_error' });
+      endTimer({ result: 'failure' });
+      return Left({
+        ...WEBDRIVER_ERRORS.SESSION_NOT_CREATED,
+        message: e.message || '',
+        stacktrace: e.stack || '',
       });
-    } finally {
-      this.createSessionMutex.signal();
     }
+  }
 
+  private async requestNewSession(candidate: Candidate): Promise<AxiosResponse> {
+    // reserve slot optimistically before the node reports its new state
+    this.reserveSlots(candidate, 1);
     try {
-      const res = await resPromise;
+      const res = await this.axios.request({
+        method: 'POST',
+        baseURL: candidate.nodeUrl,
+        url: '/wd/hub/session',
+        data: candidate.request.data,
+        headers: { [REQUEST_ID_HEADER]: candidate.request.requestId },
+      });
       const sessionId = res.data?.sesssionId || res.data?.value?.sessionId;
       if (!sessionId) throw Error(`cannot find session id in response`);
-      console.log(`${sessionId}: session created`);
+      // dispatcher may run in the context of another request, so fields should be set explicitly
+      logger.child({ sessionId, nodeId: candidate.nodeId, requestId: candidate.request.requestId }).info(`session created`);
       this.sessionCache.set(sessionId, {
         nodeUrl: candidate.nodeUrl,
         sessionId,
         createdAt: Date.now(),
       });
-      return Right(res);
-    } catch (e) {
-      return Left({
-        ...WEBDRIVER_ERRORS.SESSION_NOT_CREATED,
-        message: e.message || '',
-        stacktrace: e.stack || '',
-      });
+      this.persist();
+      this.rewriteWebsocketEndpoints(res, candidate.request);
+      candidate.driver.sessions.push({ id: sessionId, createdAt: Date.now(), responseCapabilities: res.data?.value?.capabilities || res.data?.value });
+      return res;
+    } finally {
+      this.reserveSlots(candidate, -1);
+    }
+  }
+
+  private rewriteWebsocketEndpoints(res: AxiosResponse, request: RequestCapabilities) {
+    // point se:cdp and webSocketUrl to hub so that clients that can only reach hub are able to use them
+    const caps = res.data?.value?.capabilities || res.data?.value;
+    if (!caps) return;
+    const response = new ResponseCapabilities(res.data, request);
+    const sessionBaseUrl = this.config.publicUrl ?
+      `${toWebsocketUrl(this.config.publicUrl)}/wd/hub/session` : request.getSessionBaseUrl(true);
+    if (caps['se:cdp']) {
+      caps['se:cdp'] = `${sessionBaseUrl}/${response.sessionId}/se/cdp`;
+    }
+    if (response.webSocketUrl) {
+      caps['webSocketUrl'] = `${sessionBaseUrl}/${response.sessionId}/se/bidi`;
     }
   }
 
+  private enqueueSessionRequest(request: RequestCapabilities): Promise<DispatchedRequest | undefined> {
+    return new Promise(resolve => {
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = this.config.sessionRequestTimeout;
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          logger.warn(`session request timeout after waiting for ${timeout}s`);
+          this.removePendingRequest(request)?.resolve(undefined);
+        }, timeout * 1e3);
+      }
+      const pending: PendingRequest = {
+        request,
+        priority: request.priority,
+        resolve: result => {
+          if (timer) clearTimeout(timer);
+          resolve(result);
+        },
+      };
+      // higher priority first, FIFO for requests of the same priority
+      const index = _.findIndex(this.pendingRequests, p => p.priority < pending.priority);
+      if (index < 0) {
+        this.pendingRequests.push(pending);
+      } else {
+        this.pendingRequests.splice(index, 0, pending);
+      }
+    });
+  }
+
+  private removePendingRequest(request: RequestCapabilities): PendingRequest | undefined {
+    const index = this.pendingRequests.findIndex(p => p.request === request);
+    if (index < 0) return;
+    return this.pendingRequests.splice(index, 1)[0];
+  }
+
+  private dispatchPendingRequests(): Promise<void> {
+    if (this.dispatching) {
+      // let the running dispatcher take another round to serve new requests
+      this.redispatch = true;
+      return this.dispatchPromise!;
+    }
+    this.dispatching = true;
+    this.dispatchPromise = this.runDispatcher();
+    return this.dispatchPromise;
+  }
+
+  private async runDispatcher() {
+    try {
+      do {
+        this.redispatch = false;
+        for (const pending of [...this.pendingRequests]) {
+          // the request may have been removed due to timeout
+          if (!this.pendingRequests.includes(pending)) continue;
+          const candidate = await this.getBestMatch(pending.request);
+          if (!candidate) continue;
+          if (!this.removePendingRequest(pending.request)) continue;
+          const resPromise = this.requestNewSession(candidate);
+          pending.resolve({ candidate, resPromise });
+        }
+      } while (this.redispatch);
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  private onCapacityChange() {
+    if (!this.pendingRequests.length) return;
+    this.dispatchPendingRequests().catch(e => logger.error(`fail to dispatch pending requests`, e));
+  }
+
   public async forwardWebdriverRequest(sessionId: string, path: string, request: AxiosRequestConfig): Promise<Either<WebdriverError, AxiosResponse>> {
     const session = this.getSessionById(sessionId);
     if (!session) {
@@ -145,10 +412,16 @@ export class HubService {
     request.validateStatus = alwaysTrue;
     request.transformRequest = identity;
     request.transformResponse = identity;
+    const method = String(request.method || 'GET').toUpperCase();
+    const endTimer = metrics.forwardedCommandDuration.startTimer({ method });
     try {
       const res = await this.axios.request(request);
+      endTimer();
+      metrics.forwardedCommands.inc({ method, status: String(res.status) });
       return Right(res);
     } catch (e) {
+      endTimer();
+      metrics.forwardedCommands.inc({ method, status: 'error' });
       return Left({
         ...WEBDRIVER_ERRORS.UNKNOWN_ERROR,
         message: e.message || '',
@@ -210,30 +483,258 @@ export class HubService {
     }
   }
 
+  public async setNodeDraining(nodeId: string, request: AxiosRequestConfig): Promise<Either<WebdriverError, AxiosResponse>> {
+    const node = this.getNodeById(nodeId);
+    if (!node) {
+      return Left({
+        ...WEBDRIVER_ERRORS.INVALID_NODE_ID,
+        message: `node id ${nodeId} is invalid`,
+        stacktrace: new Error().stack || '',
+      });
+    }
+    request.baseURL = node.url;
+    request.url = `/wd/hub/nodes/${encodeURIComponent(nodeId)}/drain`;
+    request.validateStatus = alwaysTrue;
+    request.transformRequest = identity;
+    request.transformResponse = identity;
+    try {
+      const res = await this.axios.request(request);
+      if (res.status < 300) {
+        // update the view in advance instead of waiting for node to push its state
+        node.node.draining = 'DELETE' !== String(request.method).toUpperCase();
+        this.persist();
+        this.onCapacityChange();
+      }
+      return Right(res);
+    } catch (e) {
+      return Left({
+        ...WEBDRIVER_ERRORS.UNKNOWN_ERROR,
+        message: e.message || '',
+        stacktrace: e.stack || '',
+      });
+    }
+  }
+
+  public async forwardArtifactsRequest(sessionId: string, path: string, request: AxiosRequestConfig): Promise<Either<WebdriverError, AxiosResponse>> {
+    // artifacts are still available after session ends, so ended sessions should be searched as well
+    const session = this.getSessionById(sessionId) || this.endedSessions.get(sessionId);
+    if (!session) {
+      return Left({
+        ...WEBDRIVER_ERRORS.INVALID_SESSION_ID,
+        message: `session id ${sessionId} is invalid`,
+        stacktrace: new Error().stack || '',
+      });
+    }
+    request.baseURL = session.nodeUrl;
+    request.url = `/wd/hub/session/${sessionId}/artifacts${path}`;
+    request.validateStatus = alwaysTrue;
+    request.transformRequest = identity;
+    request.transformResponse = identity;
+    try {
+      const res = await this.axios.request(request);
+      return Right(res);
+    } catch (e) {
+      return Left({
+        ...WEBDRIVER_ERRORS.UNKNOWN_ERROR,
+        message: e.message || '',
+        stacktrace: e.stack || '',
+      });
+    }
+  }
+
+  public async getSessionDetails(request: AxiosRequestConfig): Promise<SessionDetailDto[]> {
+    const nodeUrls = _.uniq(this.getNodes().map(node => node.url));
+    const details = await Bluebird.map(nodeUrls, async nodeUrl => {
+      try {
+        const res = await this.axios.request({
+          ...request,
+          method: 'GET',
+          baseURL: nodeUrl,
+          url: '/admin/sessions',
+          timeout: 5e3,
+        });
+        return await yup.array(sessionDetailDtoSchema).defined().validate(res.data);
+      } catch (e) {
+        logger.error(`fail to get sessions from node ${nodeUrl}`, e); // suppress error
+        return [];
+      }
+    });
+    return _.flatten(details);
+  }
+
+  /**
+   * Run provision task on the nodes matched by selector, the task is submitted to each node as a job and polled until it finishes.
+   * In canary mode the first N nodes are provisioned before the others, and the rollout stops if any of them fails.
+   */
+  public async provisionNodes(request: FleetProvisionRequest, headers: AxiosRequestConfig['headers']): Promise<Either<WebdriverError, FleetProvisionReport>> {
+    const { nodeIds, platformName, tags } = request.selector;
+    const nodes = this.getNodes().filter(({ node }) =>
+      (!nodeIds?.length || nodeIds.includes(node.config.uuid)) &&
+      (!platformName?.length || platformName.some(name => name.toLowerCase() === node.config.platformName.toLowerCase())) &&
+      (tags || []).every(tag => node.config.tags.includes(tag)));
+    if (!nodes.length) {
+      return Left({
+        ...WEBDRIVER_ERRORS.INVALID_ARGUMENT,
+        message: `no node matches the selector`,
+        stacktrace: new Error().stack || '',
+      });
+    }
+    logger.info(`start to provision ${nodes.length} nodes: %j`, request);
+
+    const provision = (node: RegistedNode) => this.runProvisionJobOnNode(node, request, headers);
+    const [canaryNodes, restNodes] = [nodes.slice(0, request.canary), nodes.slice(request.canary)];
+    const results = await Bluebird.map(canaryNodes, provision, { concurrency: request.concurrency });
+    const failedCanaries = results.filter(result => 'failed' === result.status);
+
+    let stopped: string | undefined;
+    if (failedCanaries.length) {
+      stopped = `canary failed on nodes: ${failedCanaries.map(result => result.nodeId).join(', ')}`;
+      logger.warn(`stop provisioning, ${stopped}`);
+      results.push(...restNodes.map(node => ({ nodeId: node.node.config.uuid, nodeUrl: node.url, status: 'skipped' as const })));
+    } else {
+      results.push(...await Bluebird.map(restNodes, provision, { concurrency: request.concurrency }));
+    }
+    return Right({
+      isSuccess: results.every(result => 'succeeded' === result.status),
+      stopped,
+      nodes: results,
+    });
+  }
+
+  private async runProvisionJobOnNode(node: RegistedNode, request: FleetProvisionRequest, headers: AxiosRequestConfig['headers']): Promise<NodeProvisionResult> {
+    const nodeId = node.node.config.uuid;
+    const nodeLogger = logger.child({ nodeId });
+    try {
+      const res = await this.axios.request({
+        method: 'POST',
+        baseURL: node.url,
+        url: '/provision',
+        headers,
+        data: request.task,
+      });
+      let job: ProvisionJob = res.data;
+      nodeLogger.info(`provision job ${job.id} is submitted`);
+      while ('queued' === job.status || 'running' === job.status) {
+        await Bluebird.delay(PROVISION_JOB_POLL_INTERVAL_IN_MS);
+        const jobId = job.id;
+        // tolerate temporary network failures as the job keeps running on node
+        const res = await retry(() => this.axios.request({
+          method: 'GET',
+          baseURL: node.url,
+          url: `/provision/jobs/${encodeURIComponent(jobId)}`,
+          headers,
+        }), { max: 3, interval: PROVISION_JOB_POLL_INTERVAL_IN_MS });
+        job = res!.data;
+      }
+      nodeLogger.info(`provision job ${job.id} ${job.status}`);
+      return {
+        nodeId,
+        nodeUrl: node.url,
+        status: 'succeeded' === job.status ? 'succeeded' : 'failed',
+        jobId: job.id,
+        result: job.result,
+        error: job.error,
+      };
+    } catch (e) {
+      nodeLogger.error(`fail to provision node`, e);
+      return { nodeId, nodeUrl: node.url, status: 'failed', error: e.message };
+    }
+  }
+
+  public async killSession(sessionId: string, request: AxiosRequestConfig): Promise<Either<WebdriverError, AxiosResponse>> {
+    const session = this.getSessionById(sessionId);
+    if (!session) {
+      return Left({
+        ...WEBDRIVER_ERRORS.INVALID_SESSION_ID,
+        message: `session id ${sessionId} is invalid`,
+        stacktrace: new Error().stack || '',
+      });
+    }
+    request.baseURL = session.nodeUrl;
+    request.url = `/admin/sessions/${encodeURIComponent(sessionId)}`;
+    request.validateStatus = alwaysTrue;
+    request.transformRequest = identity;
+    request.transformResponse = identity;
+    try {
+      const res = await this.axios.request(request);
+      // session may have been gone in node, remove it from hub anyway
+      if (res.status < 500) {
+        this.deleteSessionById(sessionId);
+        this.deleteSessionFromNodeRecords(sessionId);
+        logger.info(`session killed`);
+        this.onCapacityChange();
+      }
+      return Right(res);
+    } catch (e) {
+      return Left({
+        ...WEBDRIVER_ERRORS.UNKNOWN_ERROR,
+        message: e.message || '',
+        stacktrace: e.stack || '',
+      });
+    }
+  }
+
   public async deleteWebdriverSession(sessionId: string, path: string, request: AxiosRequestConfig): Promise<Either<WebdriverError, AxiosResponse>> {
     const res = await this.forwardWebdriverRequest(sessionId, path, request);
     if (res.isRight()) {
       this.deleteSessionById(sessionId);
-      console.log(`${sessionId}: session deleted`);
+      this.deleteSessionFromNodeRecords(sessionId);
+      logger.info(`session deleted`);
+      this.onCapacityChange();
     }
     return res;
   }
 
-  async onRegister(nodeUrl: string) {
-    console.log(`on node ${nodeUrl} registered`);
-    const res = await this.axios.request({
-      method: 'GET',
-      baseURL: nodeUrl,
-      url: '/wd/hub/nodes',
-      timeout: 5e3,
-    });
+  async onRegister(nodeUrl: string, nodes?: NodeDto[]) {
+    logger.debug(`on node ${nodeUrl} registered`);
+    if (!nodes) {
+      // fallback to pull states from node if they are not pushed with register request
+      const res = await this.axios.request({
+        method: 'GET',
+        baseURL: nodeUrl,
+        url: '/wd/hub/nodes',
+        timeout: 5e3,
+      });
+      nodes = await yup.array(nodeDtoSchema).defined().validate(res.data, { strict: true });  // skip validate if it is too slow
+    }
 
-    const nodes = await yup.array(nodeDtoSchema).defined().validate(res.data, { strict: true });  // skip validate if it is too slow
-    const expireAfter = Date.now() + REGISTER_TIMEOUT_IN_MS;
+    const updatedAt = Date.now();
+    const expireAfter = updatedAt + REGISTER_TIMEOUT_IN_MS;
     nodes.forEach(node => {
       node.config.publicUrl = nodeUrl;
-      this.nodesIndex.set(node.config.uuid, { url: nodeUrl, node, expireAfter });
+      this.nodesIndex.set(node.config.uuid, { url: nodeUrl, node, expireAfter, updatedAt });
     });
+    this.reconcileSessions(nodeUrl, nodes);
+    this.persist();
+    this.onCapacityChange();
+  }
+
+  private reconcileSessions(nodeUrl: string, nodes: NodeDto[]) {
+    // sync session routes with the sessions reported by node,
+    // which is necessary for the routes restored from store.
+    const now = Date.now();
+    const reportedSessionIds = new Set(
+      _(nodes)
+        .flatMap(node => node.drivers)
+        .flatMap(driver => driver.sessions)
+        .map(session => session.id)
+        .value()
+    );
+    for (const [id, session] of this.sessionCache.entries()) {
+      if (session.nodeUrl !== nodeUrl || reportedSessionIds.has(id)) continue;
+      // skip newly created session as it may not be reported yet
+      if (session.createdAt + REGISTER_TIMEOUT_IN_MS > now) continue;
+      logger.child({ sessionId: id }).info(`remove session that is not reported by node ${nodeUrl}`);
+      this.sessionCache.delete(id);
+    }
+    for (const id of reportedSessionIds) {
+      if (this.sessionCache.has(id)) continue;
+      this.sessionCache.set(id, { nodeUrl, sessionId: id, createdAt: now });
+    }
+  }
+
+  public getNodeUrlBySessionId(sessionId: string): string | undefined {
+    return this.getSessionById(sessionId)?.nodeUrl;
   }
 
   getNodes(): RegistedNode[] {
@@ -242,8 +743,10 @@ export class HubService {
       if (value.expireAfter < now) {
         // It's safe to do so according to https://stackoverflow.com/a/35943995/3099733
         // PS: Don't do this in Python.
-        console.log(`remove expired node: ${key}`);
+        logger.warn(`remove expired node: ${key}`);
         this.nodesIndex.delete(key);
+        metrics.expiredNodes.inc();
+        this.persist();
       }
     }
     return [...this.nodesIndex.values()];
@@ -257,17 +760,29 @@ export class HubService {
     // search session in cache first
     let session: SessionRecord | undefined = this.sessionCache.get(sessionId);
     if (!session) {
-      console.log(`cannot find session ${sessionId} in cache, fallback to search in node records`)
+      logger.info(`cannot find session ${sessionId} in cache, fallback to search in node records`)
       session = this.findSessionInNodeRecords(sessionId);
       if (!session) return;
-      console.log(`found session in node records and add session ${sessionId} to cache`);
+      logger.info(`found session in node records and add session ${sessionId} to cache`);
       this.sessionCache.set(sessionId, session);
+      this.persist();
     }
     return session;
   }
 
   private deleteSessionById(sessionId: string) {
+    const session = this.sessionCache.get(sessionId);
+    if (session) this.endedSessions.set(sessionId, session);
     this.sessionCache.delete(sessionId);
+    this.persist();
+  }
+
+  private deleteSessionFromNodeRecords(sessionId: string) {
+    for (const node of this.nodesIndex.values()) {
+      for (const driver of node.node.drivers) {
+        _.remove(driver.sessions, session => session.id === sessionId);
+      }
+    }
   }
 
   private findSessionInNodeRecords(sessionId: string): SessionRecord | undefined {
@@ -297,8 +812,8 @@ export class HubService {
         .value()
     );
 
-    console.log(`current active sessions are: `, activeSessionIds);
-    console.log(`current session in index are: `, [...this.sessionCache.keys()]);
+    logger.debug(`current active sessions are: %j`, [...activeSessionIds]);
+    logger.debug(`current session in index are: %j`, [...this.sessionCache.keys()]);
 
     for (const [id, session] of this.sessionCache.entries()) {
       // this session has been in index for more than 10min
@@ -306,8 +821,9 @@ export class HubService {
       if (session.createdAt + maxAge < now) {
         // this session is not in the current active sessions
         if (!activeSessionIds.has(id)) {
-          console.log(`${id}: remove expired session`);
+          logger.child({ sessionId: id }).info(`remove expired session`);
           this.sessionCache.delete(id);
+          this.persist();
         }
       }
     }
@@ -321,37 +837,60 @@ export class LocalService {
       config,
       config.drivers.map(driver => new WebdriverManager(config, driver, processManager)),
       processManager,
-      axios.create(),
+      // node secret is required by hub to accept register requests
+      axios.create({ headers: new Auth(config.auth).nodeHeaders, httpsAgent: createHttpsAgent(config) }),
     );
   }
 
   private nextRegisterTime: number = 0;
   private terminatingTimer?: NodeJS.Timer;
+  private isDraining: boolean = false;
+  private slotStrategies: SlotStrategies;
 
   get terminating() {
     return undefined !== this.terminatingTimer;
   }
 
+  get draining() {
+    return this.isDraining;
+  }
+
   constructor(
     private readonly config: Configuration,
-    private readonly webdriverManagers: WebdriverManager[],
+    private webdriverManagers: WebdriverManager[],
     private readonly processManager: ProcessManager,
     private readonly axios: AxiosInstance,
-  ) { }
+  ) {
+    this.slotStrategies = new SlotStrategies(config.slotStrategy, 'least-loaded');
+  }
 
   init() {
     ['SIGINT', 'SIGTERM', 'uncaughtException'].forEach(signal => {
       process.on(signal, (...argv) => {
-        console.log(`on ${signal}, argv:`);
-        console.log(argv);
-        console.log(`terminating...`);
+        logger.info(`on ${signal}, argv: %j`, argv);
+        logger.info(`terminating...`);
         this.closeActiveSessions();
         process.exit();
       })
     });
+    // webdriver processes are detached, so idle ones in warm pools must be killed explicitly
+    process.on('exit', () => this.webdriverManagers.forEach(driver => driver.stopWarmPool()));
     if (this.config.registerTo) {
       this.autoRegister();
     }
+    onCollect(() => {
+      metrics.driverBusySlots.reset();
+      metrics.driverAvailableSlots.reset();
+      for (const driver of this.webdriverManagers) {
+        const labels = { driver: driver.id, browser_name: driver.browserName, browser_version: driver.browserVersion || '' };
+        metrics.driverBusySlots.set(labels, driver.busySlots);
+        metrics.driverAvailableSlots.set(labels, driver.availableSlots);
+      }
+    });
+    const { retention, maxArtifacts } = this.config.recording;
+    const cleanExpiredArtifacts = () => cleanArtifacts(getArtifactsFolder(this.config), retention, maxArtifacts).catch(e => logger.error(`fail to clean artifacts`, e));
+    cleanExpiredArtifacts();
+    setInterval(cleanExpiredArtifacts, 3600e3);
   }
 
 
@@ -360,20 +899,35 @@ export class LocalService {
   }
 
   public get availableSlots() {
-    if (this.terminating) return 0;
+    if (this.terminating || this.draining) return 0;
     return this.config.maxSessions - this.busySlots;
   }
 
   public getMatchedWebdrivers(request: RequestCapabilities): WebdriverManager[] {
-    return this.webdriverManagers.filter(driver => driver.isMatch(request));
+    return filterByVersion(
+      this.webdriverManagers.filter(driver => driver.isMatch(request)),
+      driver => driver.browserVersion,
+      request.browserVersion,
+    );
   }
 
   public getAvailableWebdrivers(request: RequestCapabilities): WebdriverManager[] {
     return this.getMatchedWebdrivers(request).filter(driver => driver.availableSlots > 0);
   }
 
+  public resolveFirstMatch(request: RequestCapabilities): RequestCapabilities {
+    // pick up the first merged capabilities of W3C firstMatch that can be satisfied
+    const requests = request.firstMatches;
+    return requests.find(r => this.getAvailableWebdrivers(r).length) || requests[0];
+  }
+
   public getBestAvailableWebdirver(request: RequestCapabilities) {
-    return _.maxBy(this.getAvailableWebdrivers(request), driver => driver.getScore(request));
+    request = this.resolveFirstMatch(request);
+    let drivers = this.getAvailableWebdrivers(request);
+    if (request.browserVersion) {
+      drivers = keepHighestVersion(drivers, driver => driver.browserVersion);
+    }
+    return this.slotStrategies.select(drivers, request);
   }
 
   public getBestMatch(request: RequestCapabilities): DriverDto | undefined {
@@ -384,7 +938,11 @@ export class LocalService {
   }
 
   public async newWebdirverSession(request: RequestCapabilities): Promise<Either<WebdriverError, ResponseCapabilities>> {
+    request = this.resolveFirstMatch(request);
+    const endTimer = metrics.sessionCreateDuration.startTimer();
     if (!this.availableSlots) {
+      metrics.sessionCreateFailures.inc({ reason: 'no_free_slots' });
+      endTimer({ result: 'failure' });
       return Left({
         ...WEBDRIVER_ERRORS.SESSION_NOT_CREATED,
         message: `no free slots in node ${this.config.uuid}`,
@@ -394,6 +952,8 @@ export class LocalService {
 
     const driver = this.getBestAvailableWebdirver(request);
     if (!driver) {
+      metrics.sessionCreateFailures.inc({ reason: 'no_matched_driver' });
+      endTimer({ result: 'failure' });
       return Left({
         ...WEBDRIVER_ERRORS.SESSION_NOT_CREATED,
         message: `no availabe capbilities could be found`,
@@ -404,8 +964,11 @@ export class LocalService {
     try {
       const res = await driver.makeSession(request);
       this.onSessionChange();
+      endTimer({ result: 'success' });
       return Right(res);
     } catch (e) {
+      metrics.sessionCreateFailures.inc({ reason: 'driver_error' });
+      endTimer({ result: 'failure' });
       return Left({
         ...WEBDRIVER_ERRORS.SESSION_NOT_CREATED,
         message: e.message || '',
@@ -421,6 +984,24 @@ export class LocalService {
     this.onSessionChange();
   }
 
+  public getSessionDetails(): SessionDetailDto[] {
+    return _.flatMap(this.webdriverManagers, driver => driver.getSessionDetails());
+  }
+
+  public async killSession(sessionId: string): Promise<Either<WebdriverError, void>> {
+    const driverManager = this.getWebdirverBySessionId(sessionId);
+    if (!driverManager) {
+      return Left({
+        ...WEBDRIVER_ERRORS.INVALID_SESSION_ID,
+        message: `session id ${sessionId} is invalid`,
+        stacktrace: new Error().stack || '',
+      });
+    }
+    await driverManager.destroySession(sessionId, true);
+    this.onSessionChange();
+    return Right(undefined);
+  }
+
   public async forwardWebdriverRequest(sessionId: string, path: string, request: AxiosRequestConfig): Promise<Either<WebdriverError, AxiosResponse>> {
     const session = this.getWebdriverSessionById(sessionId);
     if (!session) {
@@ -434,10 +1015,16 @@ export class LocalService {
     request.validateStatus = alwaysTrue;
     request.transformRequest = identity;
     request.transformResponse = identity;
+    const method = String(request.method || 'GET').toUpperCase();
+    const endTimer = metrics.forwardedCommandDuration.startTimer({ method });
     try {
       const res = await session.forward(request);
+      endTimer();
+      metrics.forwardedCommands.inc({ method, status: String(res.status) });
       return Right(res);
     } catch (e) {
+      endTimer();
+      metrics.forwardedCommands.inc({ method, status: 'error' });
       return Left({
         ...WEBDRIVER_ERRORS.UNKNOWN_ERROR,
         message: e.message || '',
@@ -462,12 +1049,18 @@ export class LocalService {
     return await webdriverSession?.getCdpEndpoint();
   }
 
+  public async getBidiEndpointBySessionId(sessionId: string) {
+    const webdriverSession = this.getWebdriverSessionById(sessionId);
+    return await webdriverSession?.getBidiEndpoint();
+  }
+
   public getDriverDtos(): DriverDto[] {
     return this.webdriverManagers.map(d => d.jsonObject);
   }
 
   public getNodeDtos(): NodeDto[] {
-    return [{ config: this.config, drivers: this.getDriverDtos() }];
+    // credentials should never be exposed
+    return [{ config: { ...this.config, auth: undefined }, drivers: this.getDriverDtos(), terminating: this.terminating, draining: this.draining }];
   }
 
   public async forwardAutoCmdRequest(request: AxiosRequestConfig): Promise<Either<AutoCmdError, AxiosResponse>> {
@@ -494,9 +1087,56 @@ export class LocalService {
     }
   }
 
+  /**
+   * Apply the reloaded configuration in place.
+   * Drivers are matched by uuid, or by their content if uuid is not set explicitly,
+   * so that limits and tags of a driver can be updated without affecting its sessions.
+   * Removed drivers stop accepting new sessions and are dropped once their sessions finish.
+   */
+  public reload(config: Configuration) {
+    const unmatched = new Set(this.webdriverManagers.filter(driver => !driver.retiring));
+    const managers = config.drivers.map(driverConfig => {
+      const candidates = [...unmatched];
+      const manager = candidates.find(m => m.id === driverConfig.uuid) ||
+        candidates.find(m => _.isEqual(_.omit(m.jsonObject.config, 'uuid'), _.omit(driverConfig, 'uuid'))) ||
+        candidates.find(m => isSameDriver(m.jsonObject.config, driverConfig));
+      if (!manager) {
+        logger.info(`add driver ${driverConfig.uuid}: ${driverConfig.browserName} ${driverConfig.browserVersion || ''}`);
+        return new WebdriverManager(this.config, driverConfig, this.processManager);
+      }
+      unmatched.delete(manager);
+      driverConfig.uuid = manager.id;
+      manager.update(driverConfig);
+      return manager;
+    });
+    for (const manager of unmatched) {
+      logger.info(`remove driver ${manager.id} after its sessions finish`);
+      manager.retire();
+    }
+    // all components share the same configuration object, so it is updated in place
+    Object.assign(this.config, config);
+    configureLogger({ level: config.logging.level as LogLevel, format: config.logging.format as LogFormat });
+    this.slotStrategies = new SlotStrategies(this.config.slotStrategy, 'least-loaded');
+    this.webdriverManagers = [
+      ...managers,
+      ...this.webdriverManagers.filter(driver => driver.retiring || unmatched.has(driver)),
+    ];
+    this.onSessionChange();
+  }
+
+  /**
+   * Stop accepting new sessions (or resume) without affecting the active sessions.
+   */
+  public setDraining(draining: boolean) {
+    if (draining === this.isDraining) return;
+    logger.info(draining ? `drain node` : `undrain node`);
+    this.isDraining = draining;
+    this.onSessionChange();  // push state to hub
+  }
+
   public async terminate(options: TerminateOptions) {
     if (options.cancel) {
-      console.log(`cancel service termination`);
+      logger.info(`cancel service termination`);
       clearInterval(this.terminatingTimer);
       this.terminatingTimer = undefined;
       return;
@@ -507,20 +1147,20 @@ export class LocalService {
     }
 
     if (options.force) {
-      console.log(`force terminate service without waiting for active sessions exited in 5 seconds`);
+      logger.info(`force terminate service without waiting for active sessions exited in 5 seconds`);
       setTimeout(() => process.exit(1), 5e3); // leave some time for controller to send response.
     }
 
-    console.log('terminate service when there is no active sessions');
+    logger.info('terminate service when there is no active sessions');
     if (this.terminatingTimer) return;
 
     const checkIntervalInS = 5;
     this.terminatingTimer = setInterval(() => {
       if (!this.activeSessions.length) {
-        console.log('terminate service now');
+        logger.info('terminate service now');
         process.exit(1);
       }
-      console.log(`active sessions are detected, defer termintation to ${checkIntervalInS}s later...`);
+      logger.info(`active sessions are detected, defer termintation to ${checkIntervalInS}s later...`);
     }, checkIntervalInS * 1e3);
   }
 
@@ -535,10 +1175,17 @@ export class LocalService {
   }
 
   private onSessionChange() {
+    this.removeRetiredDrivers();
     this.register();
   }
 
+  private removeRetiredDrivers() {
+    // drop the drivers removed by reload once their sessions finish
+    this.webdriverManagers = this.webdriverManagers.filter(driver => !driver.retiring || driver.busySlots > 0);
+  }
+
   private async autoRegister() {
+    this.removeRetiredDrivers();
     if (this.nextRegisterTime < Date.now()) {
       await this.register(); // suppressed error
     }
@@ -551,7 +1198,8 @@ export class LocalService {
     // suggest a new time for next auto register
     this.nextRegisterTime = Date.now() + REGISTER_TIMEOUT_IN_MS / 2;
     const data: RegisterDto = {
-      registerAs: this.config.publicUrl || `http://%s:${this.config.port}`,
+      registerAs: this.config.publicUrl || `${this.config.tls?.cert ? 'https' : 'http'}://%s:${this.config.port}`,
+      nodes: this.getNodeDtos(),
     };
     const baseURL = this.config.registerTo;
     try {
@@ -564,28 +1212,87 @@ export class LocalService {
       });
       return res;
     } catch (e) {
-      console.error(`register to ${baseURL} failed: ${String(e)}`); // suppress error
+      logger.error(`register to ${baseURL} failed: ${String(e)}`); // suppress error
     }
   }
 }
 
-class WebdriverManager {
+class WebdriverManager implements Slot {
   private readonly sessions: Map<string, ISession> = new Map();
   private readonly watchDogs: WeakMap<ISession, Watchdog> = new WeakMap();
   private pendingSessions: number = 0;
+  private readonly logger: Logger;
+  public lastIdleAt?: number;
+  public retiring: boolean = false;
+  private resolving?: Promise<void>;
+  private warmPool?: WebdriverProcessPool;
 
   constructor(
     private config: Configuration,
     private driverConfig: DriverConfiguration,
     private readonly processManager: ProcessManager,
-  ) { }
+  ) {
+    this.logger = logger.child({ driverId: driverConfig.uuid });
+    this.updateWarmPool();
+  }
 
   isMatch(request: RequestCapabilities): boolean {
+    if (this.retiring) return false;
     return isRequestMatch(this.config, this.driverConfig, request);
   }
 
-  getScore(request: RequestCapabilities) {
-    return this.availableSlots / this.driverConfig.maxSessions;
+  update(driverConfig: DriverConfiguration) {
+    this.driverConfig = driverConfig;
+    this.updateWarmPool();
+  }
+
+  /**
+   * Stop accepting new sessions, the driver is dropped once its sessions finish.
+   */
+  retire() {
+    this.retiring = true;
+    this.stopWarmPool();
+  }
+
+  stopWarmPool() {
+    this.warmPool?.stop();
+    this.warmPool = undefined;
+  }
+
+  private updateWarmPool() {
+    if (!this.driverConfig.warmPool || this.retiring) {
+      this.stopWarmPool();
+      return;
+    }
+    // safaridriver only allows one instance, and nodejs sessions are not backed by webdriver processes
+    if (['safari', 'nodejs'].includes(this.driverConfig.browserName)) {
+      this.logger.warn(`warmPool is not supported by ${this.driverConfig.browserName}, ignore it`);
+      return;
+    }
+    if (!this.warmPool) {
+      this.warmPool = new WebdriverProcessPool(() => this.driverConfig, this.processManager);
+    }
+    this.warmPool.refill();
+  }
+
+  get id() {
+    return this.driverConfig.uuid;
+  }
+
+  get maxSessions() {
+    return this.driverConfig.maxSessions;
+  }
+
+  get tags() {
+    return this.driverConfig.tags;
+  }
+
+  get browserName() {
+    return this.driverConfig.browserName;
+  }
+
+  get browserVersion() {
+    return this.driverConfig.browserVersion;
   }
 
   get busySlots() {
@@ -593,6 +1300,7 @@ class WebdriverManager {
   }
 
   get availableSlots() {
+    if (this.retiring) return 0;
     return this.driverConfig.maxSessions - this.busySlots;
   }
 
@@ -618,36 +1326,88 @@ class WebdriverManager {
         this.processManager,
         axios.create({ timeout: LONG_TIMEOUT_IN_MS }),
       );
-      const res = await session.start();
-      console.log(`${session.id}: session created`);
-      console.log(`downloadFolder: ${session.downloadFolder}`);
+      // warm processes are started without the environment variables of request
+      const warmProcess = _.isEmpty(request.environmentVariables) ? this.warmPool?.take() : undefined;
+      const res = await session.start(warmProcess);
+      this.logger.child({ sessionId: session.id }).info(`session created, downloadFolder: ${session.downloadFolder}`);
       this.addSession(session);
+      await this.mayStartRecording(session, request);
 
-      const watchDog = new Watchdog(() => this.destroySession(session.id), this.sessionTimeoutInSeconds);
+      const watchDog = new Watchdog(() => {
+        metrics.watchdogKills.inc();
+        return this.destroySession(session.id);
+      }, this.sessionTimeoutInSeconds);
       this.watchDogs.set(session, watchDog);
 
       return res;
     } catch (e) {
-      console.error(e);
+      this.logger.error(`fail to create session`, e);
       if (session) {
         session.kill();
       }
+      if (this.driverConfig.resolver && isVersionMismatchError(e)) {
+        await this.resolveWebdriverAgain();
+      }
       throw e;
     } finally {
       this.pendingSessions--;
     }
   }
 
-  public async destroySession(sessionId: string) {
+  /**
+   * Resolve webdriver again when it doesn't match the browser any more, e.g. browser is upgraded automatically,
+   * so that the following sessions are created with the new webdriver.
+   */
+  private async resolveWebdriverAgain() {
+    if (!this.resolving) {
+      this.logger.warn(`webdriver doesn't match the version of browser, resolve it again`);
+      this.resolving = resolveWebdriver(this.driverConfig, join(this.config.tmpFolder, 'webdrivers'))
+        .then(path => {
+          this.logger.info(`webdriver is resolved: ${path}`);
+          this.driverConfig.command.path = path;
+          this.warmPool?.refill();
+        })
+        .catch(e => this.logger.error(`fail to resolve webdriver`, e))
+        .finally(() => this.resolving = undefined);
+    }
+    await this.resolving;
+  }
+
+  private async mayStartRecording(session: ISession, request: RequestCapabilities) {
+    if (!request.recordVideo && !request.recordScreenshots) return;
+    try {
+      const folder = getArtifactsFolder(this.config, session.id);
+      this.logger.child({ sessionId: session.id }).info(`start recording to ${folder}`);
+      await session.record(folder, {
+        video: request.recordVideo,
+        screenshots: request.recordScreenshots,
+        screenshotInterval: this.config.recording.screenshotInterval,
+      });
+    } catch (e) {
+      this.logger.child({ sessionId: session.id }).warn(`ignore error during start recording`, e);
+    }
+  }
+
+  /**
+   * Stop session gracefully, the webdriver process is killed if force is set and it fails to stop.
+   */
+  public async destroySession(sessionId: string, force: boolean = false) {
     const session = this.getSession(sessionId);
     if (!session) {
-      console.warn(`No session with id ${sessionId} to destroy!`)
+      this.logger.warn(`No session with id ${sessionId} to destroy!`)
       return;
     }
     this.watchDogs.get(session)?.stop();
-    await session.stop();
+    try {
+      await session.stop();
+    } catch (e) {
+      if (!force) throw e;
+      this.logger.child({ sessionId }).warn(`fail to stop session, kill it`, e);
+      session.kill();
+    }
     this.deleteSession(sessionId);
-    console.log(`${sessionId}: session deleted`);
+    this.lastIdleAt = Date.now();
+    this.logger.child({ sessionId }).info(`session deleted`);
   }
 
   public getSession(sessionId: string) {
@@ -658,10 +1418,25 @@ class WebdriverManager {
     return session;
   }
 
+  public getSessionDetails(): SessionDetailDto[] {
+    // getSession() is not used as it will feed the watchdog
+    return this.getSessions().map(session => ({
+      id: session.id,
+      nodeId: this.config.uuid,
+      driverId: this.id,
+      createdAt: session.createdAt,
+      lastActivityAt: this.watchDogs.get(session)?.lastFeedAt,
+      pid: session.pid,
+      requestedCapabilities: session.request.data?.capabilities || session.request.data?.desiredCapabilities,
+    }));
+  }
+
   public get jsonObject(): DriverDto {
     return {
       config: this.driverConfig,
       sessions: this.getSessions().map(s => s.jsonObject),
+      lastIdleAt: this.lastIdleAt,
+      retiring: this.retiring,
     };
   }
 
@@ -679,9 +1454,13 @@ class WebdriverManager {
 
 }
 
+function isSameDriver(a: DriverConfiguration, b: DriverConfiguration) {
+  return a.browserName === b.browserName && a.browserVersion === b.browserVersion && _.isEqual(a.command, b.command);
+}
+
 function isRequestMatch(config: Configuration, driver: DriverConfiguration, request: RequestCapabilities): boolean {
   if (request.browserName && request.browserName != driver.browserName) return false;
-  if (request.browserVersion && request.browserVersion != driver.browserVersion) return false;
+  // browserVersion is matched by filterByVersion as aliases should be resolved against all drivers
   if (request.browserUUID && request.browserUUID != driver.uuid) return false;
   if (request.browserTags && !matchTags(request.browserTags, driver.tags)) return false;
 
@@ -692,6 +1471,11 @@ function isRequestMatch(config: Configuration, driver: DriverConfiguration, requ
   return true;
 }
 
+export function getArtifactsFolder(config: Configuration, sessionId?: string) {
+  const root = join(config.tmpFolder, 'artifacts');
+  return sessionId ? join(root, sessionId) : root;
+}
+
 function matchTags(requestTags: string[], targetTags: string[]) {
   return requestTags.every(tag => tag.startsWith('!') ? (!targetTags.includes(tag.slice(1))) : targetTags.includes(tag));
 }
@@ -707,6 +1491,15 @@ export async function getFile(ctx: Context, root: string, isJsonResponse = true)
   const url = '/' + (ctx.params[0] || '');
   const encoding = ctx.query.encoding as BufferEncoding || 'utf-8';
   const path = join(root, url);
+  // url is decoded already, make sure it doesn't escape from root via '..'
+  const relativePath = relative(root, path);
+  if ('..' === relativePath || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath)) {
+    setHttpResponse(ctx, {
+      status: 404,
+      body: `file not found: ${url}`,
+    });
+    return;
+  }
   try {
     const stat = await fs.promises.lstat(path);
     if (stat.isDirectory()) {
@@ -6,17 +6,38 @@ import { DriverConfiguration, SessionDto } from "./types";
 import { Request } from 'koa';
 import _ from 'lodash';
 import { ProcessManager } from "./process";
-import { SF_CAPS_FIELDS } from "./constants";
+import { REQUEST_ID_HEADER, SF_CAPS_FIELDS } from "./constants";
 import * as fs from 'fs';
 import { exec } from 'shelljs';
+import { RecordOptions, SessionRecorder } from "./recorder";
+import { logger } from "./logger";
+import { WarmProcess } from "./pool";
 
 
 export class RequestCapabilities {
 
-  get data() { return this.request.body as any; }
+  get data() {
+    const data = this.request.body as any;
+    if (!this.matchedCapabilities) return data;
+    // only forward the matched capabilities to webdriver
+    return { ...data, capabilities: { alwaysMatch: this.matchedCapabilities } };
+  }
   get href() { return this.request.href.replace(/\/$/, ""); }
 
-  constructor(private request: Request) { }
+  constructor(private request: Request, private matchedCapabilities?: any) { }
+
+  /**
+   * Merge alwaysMatch with each entry of firstMatch according to W3C capabilities processing,
+   * the result should be tried in order to find the first one that can be satisfied.
+   */
+  get firstMatches(): RequestCapabilities[] {
+    if (this.matchedCapabilities) return [this];
+    const caps = (this.request.body as any)?.capabilities;
+    if (!caps?.alwaysMatch && !Array.isArray(caps?.firstMatch)) return [this];
+    // an empty entry is a valid fallback which means alwaysMatch alone, so all entries are kept in order
+    const firstMatch: any[] = Array.isArray(caps.firstMatch) && caps.firstMatch.length ? caps.firstMatch : [{}];
+    return firstMatch.map(c => new RequestCapabilities(this.request, { ...caps.alwaysMatch, ...c }));
+  }
 
   getSessionBaseUrl(isWebsocket: boolean) {
     let proto = this.request.protocol;
@@ -41,7 +62,10 @@ export class RequestCapabilities {
   }
 
   get browserName() { return this.getValue('browserName'); }
-  get browserVersion() { return this.getValue('browserVersion'); }
+  get browserVersion(): string | undefined {
+    const browserVersion = this.getValue('browserVersion');
+    return _.isNil(browserVersion) ? undefined : String(browserVersion);
+  }
   get browserUUID() { return this.getValue(SF_CAPS_FIELDS.BROWSER_UUID); }
   get browserTags(): string[] | undefined { return this.getValue(SF_CAPS_FIELDS.BROWSER_TAGS) as any };
 
@@ -61,6 +85,25 @@ export class RequestCapabilities {
   get nodeUUID() { return this.getValue(SF_CAPS_FIELDS.NODE_UUID); }
   get nodeTags(): string[] | undefined { return this.getValue(SF_CAPS_FIELDS.NODE_TAGS) as any };
 
+  get requestId(): string | undefined {
+    return this.request.get(REQUEST_ID_HEADER) || undefined;
+  }
+
+  get priority(): number {
+    const priority = Number(this.getValue(SF_CAPS_FIELDS.PRIORITY));
+    return Number.isFinite(priority) ? priority : 0;
+  }
+
+  get slotStrategy(): string | undefined {
+    const name = this.getValue(SF_CAPS_FIELDS.SLOT_STRATEGY);
+    if ('string' == typeof name) {
+      return name;
+    }
+  }
+
+  get recordVideo(): boolean { return true === this.getValue(SF_CAPS_FIELDS.RECORD_VIDEO); }
+  get recordScreenshots(): boolean { return true === this.getValue(SF_CAPS_FIELDS.RECORD_SCREENSHOTS); }
+
   get environmentVariables(): any { return this.getValue(SF_CAPS_FIELDS.ENVS) || {}; }
 
   get shouldcleanUserData(): boolean | undefined {
@@ -71,7 +114,7 @@ export class RequestCapabilities {
   }
 
   private getValue(key: string): unknown {
-    const caps = this.data.capabilities?.alwaysMatch || this.data.desiredCapabilities || {};
+    const caps = this.matchedCapabilities || this.data.capabilities?.alwaysMatch || this.data.desiredCapabilities || {};
     return caps[key];
   }
 
@@ -84,13 +127,37 @@ export class RequestCapabilities {
       if (caps.capabilities?.alwaysMatch) {
         delete caps.capabilities.alwaysMatch[key];
       }
+      if (Array.isArray(caps.capabilities?.firstMatch)) {
+        caps.capabilities.firstMatch.forEach((c: any) => delete c?.[key]);
+      }
     }
     return caps;
   }
 }
 
+export interface CdpVersion {
+  browser: string;
+  protocolVersion: string;
+  browserVersion: string;
+  majorVersion: string;
+}
+
+export function parseCdpVersion(data: any): CdpVersion | undefined {
+  // e.g. {"Browser": "Chrome/102.0.5005.61", "Protocol-Version": "1.3"} or {"Browser": "node.js/v16.15.0", "Protocol-Version": "1.1"}
+  const browser = data?.['Browser'];
+  if (!browser || 'string' != typeof browser) return;
+  const browserVersion = _.last(browser.split('/'))!.replace(/^v/, '');
+  return {
+    browser,
+    protocolVersion: data?.['Protocol-Version'] || '',
+    browserVersion,
+    majorVersion: browserVersion.split('.')[0],
+  };
+}
+
 export class ResponseCapabilities {
 
+  public cdpVersion?: CdpVersion;
   public readonly rawResponseCapabilities: any;
   public readonly sessionId: string;
   public readonly browserName: string;
@@ -108,6 +175,17 @@ export class ResponseCapabilities {
     return `${this.request.getSessionBaseUrl(true)}/${this.sessionId}/se/cdp`;
   }
 
+  get bidiEndpoint() {
+    return `${this.request.getSessionBaseUrl(true)}/${this.sessionId}/se/bidi`;
+  }
+
+  get webSocketUrl(): string | undefined {
+    const webSocketUrl = this.rawResponseCapabilities?.webSocketUrl;
+    if ('string' == typeof webSocketUrl) {
+      return webSocketUrl;
+    }
+  }
+
   get downloadDirectoryEndpoint() {
     return `${this.request.getSessionBaseUrl(false)}/${this.sessionId}/download-directory`
   }
@@ -147,7 +225,18 @@ export class ResponseCapabilities {
     // set cdp endpoint
     if (this.isCdpSupported) {
       copiedResponseCapabilities['se:cdp'] = this.cdpEndpoint;
-      copiedResponseCapabilities['se:cdpVersion'] = 'FIXME';  // FIXME
+      copiedResponseCapabilities['se:cdpVersion'] = this.cdpVersion?.browserVersion || this.browserVersion;
+      if (this.cdpVersion) {
+        copiedResponseCapabilities['sf:cdpVersionInfo'] = {
+          'Browser': this.cdpVersion.browser,
+          'Protocol-Version': this.cdpVersion.protocolVersion,
+          'majorVersion': this.cdpVersion.majorVersion,
+        };
+      }
+    }
+    // set bidi endpoint
+    if (this.webSocketUrl) {
+      copiedResponseCapabilities['webSocketUrl'] = this.bidiEndpoint;
     }
     // set node session url
     copiedResponseCapabilities['sf:sessionUrl'] = `${this.request.getSessionBaseUrl(false)}/${this.sessionId}`;
@@ -159,10 +248,15 @@ export class ResponseCapabilities {
 
 export interface ISession {
   id: string;
+  createdAt: number;
+  pid: number | undefined;
+  request: RequestCapabilities;
   getCdpEndpoint: () => Promise<string | void>;
-  start: () => Promise<ResponseCapabilities>;
+  getBidiEndpoint: () => Promise<string | void>;
+  start: (warmProcess?: WarmProcess) => Promise<ResponseCapabilities>;
   stop: () => Promise<void>;
   kill: () => void;
+  record: (folder: string, options: RecordOptions) => Promise<void>;
   forward: (request: AxiosRequestConfig) => Promise<AxiosResponse<any>>;
   jsonObject: SessionDto;
   downloadFolder: string | undefined;
@@ -187,8 +281,10 @@ export function createSession(
 abstract class AbstractWebdriveSession implements ISession {
 
   public response?: ResponseCapabilities;
+  public readonly createdAt: number = Date.now();
   protected process?: ChildProcess;
   protected port?: number;
+  protected recorder?: SessionRecorder;
 
   constructor(
     public request: RequestCapabilities,
@@ -205,40 +301,64 @@ abstract class AbstractWebdriveSession implements ISession {
     return sessionId;
   }
 
+  get pid() {
+    return this.process?.pid;
+  }
+
   get jsonObject() {
     return {
       id: this.id,
+      createdAt: this.createdAt,
       responseCapabilities: this.response?.jsonObject,
     };
   }
 
-  async start() {
+  protected get logger() {
+    return logger.child({ sessionId: this.response?.sessionId, driverId: this.webdriverConfiguration.uuid });
+  }
+
+  /**
+   * Start webdriver process and create session, a warm process that is ready already can be used instead.
+   */
+  async start(warmProcess?: WarmProcess) {
     await this.preStart();
-    const { port, webdriverProcess } = await this.processManager.spawnWebdriverProcess({
-      path: this.webdriverConfiguration.command.path,
-      envs: { ...this.webdriverConfiguration.command.envs, ...this.request.environmentVariables },
-      args: this.webdriverConfiguration.command.args,
-      cwd: this.webdriverConfiguration.command.cwd,
-    });
-    this.port = port;
-    this.process = webdriverProcess;
-    this.axios.defaults.baseURL = `http://localhost:${this.port}`;
-    console.log(`webdriver process ${this.process.pid}: wait for ready`);
-    await this.waitForReady();
-    console.log(`webdriver process ${this.process.pid}: ready`);
+    if (warmProcess) {
+      this.port = warmProcess.port;
+      this.process = warmProcess.process;
+      this.axios.defaults.baseURL = `http://localhost:${this.port}`;
+      this.logger.info(`webdriver process ${this.process.pid}: warm`);
+    } else {
+      const { port, webdriverProcess } = await this.processManager.spawnWebdriverProcess({
+        path: this.webdriverConfiguration.command.path,
+        envs: { ...this.webdriverConfiguration.command.envs, ...this.request.environmentVariables },
+        args: this.webdriverConfiguration.command.args,
+        cwd: this.webdriverConfiguration.command.cwd,
+      });
+      this.port = port;
+      this.process = webdriverProcess;
+      this.axios.defaults.baseURL = `http://localhost:${this.port}`;
+      this.logger.info(`webdriver process ${this.process.pid}: wait for ready`);
+      await this.waitForReady();
+      this.logger.info(`webdriver process ${this.process.pid}: ready`);
+    }
     const res = await this.createSession(this.request);
     this.response = res;
+    await this.postStart();
     return res;
   }
 
   async stop() {
-    console.log(`${this.id}: delete session`);
-    await this.axios.delete(`/session/${this.id}`, { timeout: 5e3 }).catch(e => console.error(e));
-    console.log(`${this.id}: kill process`);
+    if (this.recorder) {
+      this.logger.info(`stop recording`);
+      await this.recorder.stop().catch(e => this.logger.warn(`ignore error during stop recording`, e));
+    }
+    this.logger.info(`delete session`);
+    await this.axios.delete(`/session/${this.id}`, { timeout: 5e3 }).catch(e => this.logger.error(`fail to delete session`, e));
+    this.logger.info(`kill process`);
     this.kill();
     await this.mayCleanUserData();
     await this.postStop();
-    console.log(`${this.id}: finish`);
+    this.logger.info(`finish`);
   }
 
   async forward(request: AxiosRequestConfig) {
@@ -252,7 +372,16 @@ abstract class AbstractWebdriveSession implements ISession {
 
   async getCdpEndpoint(): Promise<string | undefined> { return; }
 
+  async record(folder: string, options: RecordOptions) {
+    this.logger.warn(`recording is not supported by ${this.response?.browserName}`);
+  }
+
+  async getBidiEndpoint(): Promise<string | undefined> {
+    return this.response?.webSocketUrl;
+  }
+
   async preStart() { }
+  async postStart() { }
   async postStop() { }
 
   get userDataDir(): string | undefined { return undefined; }
@@ -267,8 +396,7 @@ abstract class AbstractWebdriveSession implements ISession {
 
   private async createSession(request: RequestCapabilities) {
     const res = await this.axios.post('/session', this.mergeDefaultCaps(request.sanitizedCapbilities));
-    console.log(`create session:`);
-    console.log(JSON.stringify(res.data, null, 2));
+    logger.child({ sessionId: res.data?.sessionId || res.data?.value?.sessionId }).info(`create session: %j`, res.data);
     return new ResponseCapabilities(res.data, request);
   }
 
@@ -288,7 +416,7 @@ abstract class AbstractWebdriveSession implements ISession {
       try {
         this.processManager.killProcessGroup(this.process)
       } catch (e) {
-        console.warn(`ingore error during kill process`, e);
+        this.logger.warn(`ingore error during kill process`, e);
       }
     }
   }
@@ -297,10 +425,10 @@ abstract class AbstractWebdriveSession implements ISession {
     const userDataDir = this.userDataDir;
     if (this.shouldCleanUserData && userDataDir) {
       try {
-        console.log(`clean user data: ${userDataDir}`);
+        this.logger.info(`clean user data: ${userDataDir}`);
         await fs.promises.rm(userDataDir, { recursive: true, force: true });
       } catch (e) {
-        console.warn(`ignore error during rm ${userDataDir}`, e);
+        this.logger.warn(`ignore error during rm ${userDataDir}`, e);
       }
     }
   }
@@ -311,7 +439,29 @@ class CommonWebdriverSession extends AbstractWebdriveSession { }
 
 class ChromiumSession extends CommonWebdriverSession {
 
+  async postStart() {
+    try {
+      this.response!.cdpVersion = parseCdpVersion(await this.getJsonVersion());
+    } catch (e) {
+      this.logger.warn(`ignore error during query cdp version`, e);
+    }
+  }
+
   async getCdpEndpoint() {
+    const data = await this.getJsonVersion();
+    return data?.webSocketDebuggerUrl as string | undefined;
+  }
+
+  async record(folder: string, options: RecordOptions) {
+    const debuggerAddress = this.response?.chromeDebuggerAddress || this.response?.msEdgeDebuggerAddress;
+    if (!debuggerAddress) {
+      return await super.record(folder, options);
+    }
+    this.recorder = new SessionRecorder(folder, options);
+    await this.recorder.start(debuggerAddress);
+  }
+
+  private async getJsonVersion() {
     const debuggerAddress = this.response?.chromeDebuggerAddress || this.response?.msEdgeDebuggerAddress;
     if (!debuggerAddress) return;
     const res = await this.axios.request({
@@ -319,7 +469,7 @@ class ChromiumSession extends CommonWebdriverSession {
       url: '/json/version',
       method: 'GET',
     });
-    return res.data?.webSocketDebuggerUrl as string;
+    return res.data;
   }
 
   get userDataDir() {
@@ -347,6 +497,7 @@ class NodeJsSession implements ISession {
   protected process?: ChildProcess;
   protected port?: number;
   public response?: ResponseCapabilities;
+  public readonly createdAt: number = Date.now();
 
   constructor(
     public request: RequestCapabilities,
@@ -357,6 +508,10 @@ class NodeJsSession implements ISession {
     this.id = uuidv4();
   }
 
+  get pid() {
+    return this.process?.pid;
+  }
+
   async start() {
     const { port, nodejsProcess } = await this.processManager.spawnNodeJsProcess({
       path: this.webdriverConfiguration.command.path,
@@ -374,6 +529,11 @@ class NodeJsSession implements ISession {
         }
       }
     }, this.request);
+    try {
+      this.response.cdpVersion = parseCdpVersion(await this.getJsonVersion());
+    } catch (e) {
+      this.logger.warn(`ignore error during query cdp version`, e);
+    }
     return this.response;
   }
 
@@ -390,7 +550,7 @@ class NodeJsSession implements ISession {
       try {
         this.processManager.killProcessGroup(this.process)
       } catch (e) {
-        console.warn(`ingore error during kill process`, e);
+        this.logger.warn(`ingore error during kill process`, e);
       }
     }
   }
@@ -407,10 +567,32 @@ class NodeJsSession implements ISession {
     return res!.data?.[0]?.webSocketDebuggerUrl as string;
   }
 
+  private async getJsonVersion() {
+    const res = await retry(async () => {
+      return await this.axios.request({
+        baseURL: `http://localhost:${this.port}`,
+        url: '/json/version',
+        method: 'GET',
+      });
+    }, { max: 5, interval: 1e3 });
+    return res!.data;
+  }
+
+  async getBidiEndpoint() { }
+
+  async record(folder: string, options: RecordOptions) {
+    this.logger.warn(`recording is not supported by nodejs session`);
+  }
+
   get jsonObject(): SessionDto {
     return {
       id: this.id,
+      createdAt: this.createdAt,
       responseCapabilities: this.response?.jsonObject
     }
   }
+
+  protected get logger() {
+    return logger.child({ sessionId: this.id, driverId: this.webdriverConfiguration.uuid });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import { dirname, join } from 'path';
+import { nanoid } from 'nanoid';
+import type { RegistedNode, SessionRecord } from './service';
+import { Configuration } from './types';
+import { logger } from './logger';
+
+export interface HubState {
+  nodes: RegistedNode[];
+  sessions: SessionRecord[];
+}
+
+export interface IHubStore {
+  load: () => Promise<HubState | undefined>;
+  save: (state: HubState) => Promise<void>;
+}
+
+export function createHubStore(config: Configuration): IHubStore | undefined {
+  if (!config.persistence || config.persistence.disable) return;
+  return new FileHubStore(config.persistence.path || join(config.tmpFolder, 'hub-state.json'));
+}
+
+export class FileHubStore implements IHubStore {
+
+  constructor(
+    private readonly path: string,
+  ) { }
+
+  async load(): Promise<HubState | undefined> {
+    if (!fs.existsSync(this.path)) return;
+    const data = await fs.promises.readFile(this.path, { encoding: 'utf-8' });
+    let state: any;
+    try {
+      state = JSON.parse(data);
+    } catch (e) {
+      // a corrupt state file should not prevent hub from starting, nodes will register again
+      logger.warn(`ignore corrupt hub state file ${this.path}: ${e.message}`);
+      return;
+    }
+    return {
+      nodes: Array.isArray(state?.nodes) ? state.nodes : [],
+      sessions: Array.isArray(state?.sessions) ? state.sessions : [],
+    };
+  }
+
+  async save(state: HubState) {
+    // write to a temporary file first to avoid leaving a broken file when process exits unexpectedly
+    await fs.promises.mkdir(dirname(this.path), { recursive: true });
+    const tmpFile = join(dirname(this.path), `${nanoid()}.tmp`);
+    try {
+      await fs.promises.writeFile(tmpFile, JSON.stringify(state));
+      await fs.promises.rename(tmpFile, this.path);
+    } finally {
+      await fs.promises.rm(tmpFile, { force: true });
+    }
+  }
+}
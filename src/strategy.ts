@@ -0,0 +1,111 @@
+import _ from 'lodash';
+import { SLOT_STRATEGIES } from './constants';
+import { RequestCapabilities } from './session';
+import { SlotStrategyConfiguration } from './types';
+import { logger } from './logger';
+
+export interface Slot {
+  id: string;
+  busySlots: number;
+  maxSessions: number;
+  tags: string[];
+  lastIdleAt?: number;
+}
+
+export interface ISlotStrategy {
+  select<T extends Slot>(slots: T[]): T | undefined;
+}
+
+export class SlotStrategies {
+
+  private strategies = new Map<string, ISlotStrategy>();
+
+  constructor(
+    private config: SlotStrategyConfiguration,
+    private defaultName: string,
+  ) { }
+
+  select<T extends Slot>(slots: T[], request: RequestCapabilities): T | undefined {
+    if (!slots.length) return;
+    return this.getStrategy(request).select(slots);
+  }
+
+  private getStrategy(request: RequestCapabilities): ISlotStrategy {
+    let name = request.slotStrategy;
+    if (name && !SLOT_STRATEGIES.includes(name)) {
+      logger.warn(`slot strategy ${name} is not supported, fallback to default strategy`);
+      name = undefined;
+    }
+    name = name || this.config.name || this.defaultName;
+
+    // strategies are stateful (round-robin, for example), so they should be reused
+    let strategy = this.strategies.get(name);
+    if (!strategy) {
+      strategy = createSlotStrategy(name, this.config);
+      this.strategies.set(name, strategy);
+    }
+    return strategy;
+  }
+}
+
+export function createSlotStrategy(name: string, config: SlotStrategyConfiguration): ISlotStrategy {
+  switch (name) {
+    case 'random': return new RandomStrategy();
+    case 'least-loaded': return new LeastLoadedStrategy();
+    case 'round-robin': return new RoundRobinStrategy();
+    case 'most-recently-idle': return new MostRecentlyIdleStrategy();
+    case 'tag-weighted': return new TagWeightedStrategy(config.tagWeights as { [tag: string]: number });
+    default: throw Error(`slot strategy ${name} is not supported`);
+  }
+}
+
+class RandomStrategy implements ISlotStrategy {
+  select<T extends Slot>(slots: T[]) {
+    return _.sample(slots);
+  }
+}
+
+class LeastLoadedStrategy implements ISlotStrategy {
+  select<T extends Slot>(slots: T[]) {
+    const getLoad = (slot: Slot) => slot.busySlots / slot.maxSessions;
+    const minLoad = _.min(slots.map(getLoad));
+    return _.sample(slots.filter(slot => getLoad(slot) === minLoad));
+  }
+}
+
+class RoundRobinStrategy implements ISlotStrategy {
+  private seq = 0;
+  private lastSelected = new Map<string, number>();
+
+  select<T extends Slot>(slots: T[]) {
+    const slot = _.minBy(slots, slot => this.lastSelected.get(slot.id) ?? -1);
+    if (slot) {
+      this.lastSelected.set(slot.id, this.seq++);
+    }
+    return slot;
+  }
+}
+
+class MostRecentlyIdleStrategy implements ISlotStrategy {
+  select<T extends Slot>(slots: T[]) {
+    // prefer the slot that was used most recently to reuse its warm caches
+    return _.maxBy(slots, slot => slot.lastIdleAt || 0);
+  }
+}
+
+class TagWeightedStrategy implements ISlotStrategy {
+  constructor(
+    private tagWeights: { [tag: string]: number },
+    private defaultWeight = 1,
+  ) { }
+
+  select<T extends Slot>(slots: T[]) {
+    const weights = slots.map(slot => Math.max(0, _.sumBy(slot.tags, tag => this.tagWeights[tag] || 0)) || this.defaultWeight);
+    let r = Math.random() * _.sum(weights);
+    for (let i = 0; i < slots.length; i++) {
+      r -= weights[i];
+      if (r < 0) return slots[i];
+    }
+    return _.last(slots);
+  }
+}
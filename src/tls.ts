@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import { Agent } from 'https';
+import { SecureContextOptions } from 'tls';
+import { Configuration } from './types';
+
+export interface TlsServerOptions extends SecureContextOptions {
+  requestCert: boolean;
+  rejectUnauthorized: boolean;
+}
+
+const readFile = (path?: string) => path ? fs.readFileSync(path) : undefined;
+
+/**
+ * Return options to serve HTTPS, or undefined if certificate and key are not configured.
+ */
+export function getTlsServerOptions(config: Configuration): TlsServerOptions | undefined {
+  const tls = config.tls;
+  if (!tls?.cert || !tls?.key) return;
+  return {
+    cert: readFile(tls.cert),
+    key: readFile(tls.key),
+    ca: readFile(tls.ca),
+    // mutual TLS: only the clients with certificates signed by ca are accepted
+    requestCert: tls.requestCert,
+    rejectUnauthorized: tls.requestCert,
+  };
+}
+
+/**
+ * Create an agent for requests between hub and nodes,
+ * which verifies peers with the configured ca and presents client certificate for mutual TLS.
+ */
+export function createHttpsAgent(config: Configuration): Agent | undefined {
+  const tls = config.tls;
+  if (!tls) return;
+  const cert = tls.clientCert || tls.cert;
+  const key = tls.clientKey || tls.key;
+  return new Agent({
+    ca: readFile(tls.ca),
+    cert: cert && key ? readFile(cert) : undefined,
+    key: cert && key ? readFile(key) : undefined,
+  });
+}
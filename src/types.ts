@@ -3,18 +3,79 @@ import * as os from 'os';
 import { getW3CPlatformName } from './utils';
 import type { Context } from 'koa';
 import { nanoid } from 'nanoid';
+import _ from 'lodash';
+import { SLOT_STRATEGIES } from './constants';
 
 const BROWSER_NAMES = ['chrome', 'firefox', 'safari', 'MicrosoftEdge', 'nodejs'];
 const ROLES = ['local', 'hub'];
 
 const stringArray = yup.array(yup.string().required()).default([]);
+// a platform name or a list of them
+const platformNamesSchema = yup.array(yup.string().defined())
+  .transform((value, originalValue) => 'string' === typeof originalValue ? [originalValue] : value);
+
+export const provisionCommandSchema = yup.object({
+  cmd: yup.string().defined(),
+  timeout: yup.number().optional(),  // in seconds
+  retries: yup.number().default(0),
+  retryInterval: yup.number().default(1),  // in seconds
+}).defined();
+
+// a command can be a plain string or an object with options,
+// plain strings are kept as they are so that the digests of existing tasks don't change
+const provisionCommandsSchema = yup.array(
+  yup.lazy(value => 'string' === typeof value ? yup.string().defined() : provisionCommandSchema)
+).default([]);
 
 export const provisionTaskSchema = yup.object({
+  when: yup.object({
+    platformName: platformNamesSchema.optional(),
+    tags: yup.array(yup.string().defined()).optional(),
+  }).default(undefined),
+  creates: yup.string().optional(),
   download: yup.string().optional(),
-  cmds: stringArray,
+  checksum: yup.string().matches(/^sha256:[0-9a-fA-F]{64}$/, 'checksum must be in format of sha256:<hex digest>').optional()
+    .test('checksum-requires-download', 'checksum is only verified against download, which is not set', function (value) {
+      return !value || !!this.parent.download;
+    }),
+  extract: yup.string().optional(),
+  cmds: provisionCommandsSchema,
+  rollback: provisionCommandsSchema.default(undefined),
   neverSkip: yup.boolean().default(false),
 }).defined();
 
+export const fleetProvisionRequestSchema = yup.object({
+  task: provisionTaskSchema.default(undefined),
+  // nodes that match all the conditions are selected
+  selector: yup.object({
+    nodeIds: yup.array(yup.string().defined()).optional(),
+    platformName: platformNamesSchema.optional(),
+    tags: yup.array(yup.string().defined()).optional(),
+  }).default({}),
+  concurrency: yup.number().min(1).default(5),
+  // run task on the first N nodes before the others, and stop the rollout if any of them fails
+  canary: yup.number().min(0).default(0),
+}).defined();
+
+export const slotStrategyConfigurationSchema = yup.object({
+  name: yup.string().oneOf(SLOT_STRATEGIES).optional(),
+  tagWeights: yup.object().default({})
+    .test('finite-weights', 'weights of tags must be finite numbers', function (value) {
+      const invalid = Object.keys(_.omitBy(value, weight => Number.isFinite(weight)));
+      return !invalid.length || this.createError({ message: `weights of tags must be finite numbers: ${invalid.join(', ')}` });
+    }),
+}).defined();
+
+export const authConfigurationSchema = yup.object({
+  tokens: stringArray,
+  users: yup.array(yup.object({
+    username: yup.string().defined(),
+    password: yup.string().defined(),
+  }).defined()).default([]),
+  adminToken: yup.string().optional(),
+  nodeSecret: yup.string().optional(),
+});
+
 export const driverConfigurationSchema = yup.object({
   browserName: yup.string().oneOf(BROWSER_NAMES).defined(),
   browserVersion: yup.string().optional(),
@@ -28,9 +89,17 @@ export const driverConfigurationSchema = yup.object({
     envs: yup.object().default({}),
   }).defined(),
   maxSessions: yup.number().default(1),
+  warmPool: yup.number().min(0).default(0),  // number of idle webdriver processes to keep ready
+  // resolve the webdriver that matches the installed browser, command.path is used if it fails
+  resolver: yup.object({
+    browserBinary: yup.string().optional(),
+    mirror: yup.string().optional(),
+    versionUrl: yup.string().optional(),
+    downloadUrl: yup.string().optional(),
+  }).default(undefined),
   defaultCapabilities: yup.object({
     "sf:autoDownloadDirectory": yup.string().optional(),
-  }).default({}),
+  }).meta({ allowUnknown: true }).default({}),
   cleanUserData: yup.boolean().default(true),
 }).defined();
 
@@ -46,15 +115,37 @@ export const configurationSchema = yup.object({
   sessionIdleTimeout: yup.number().default(60),
   maxSessions: yup.number().default(Math.max(1, os.cpus().length - 1)),
 
+  slotStrategy: slotStrategyConfigurationSchema.default({}),
+
+  sessionRequestTimeout: yup.number().default(0),
+  sessionQueueSize: yup.number().default(100),
+
   drivers: yup.array(driverConfigurationSchema).default([]),
 
   provision: yup.object({
     tasks: yup.array(provisionTaskSchema).default([]),
+    jobHistory: yup.number().default(100),  // number of provision jobs to keep in tmpFolder/provision-jobs
   }).optional(),
 
   registerTo: yup.string().optional(),
+  auth: authConfigurationSchema.default(undefined),
+
+  tls: yup.object({
+    cert: yup.string().optional(),
+    key: yup.string().optional(),
+    ca: yup.string().optional(),
+    requestCert: yup.boolean().default(false),
+    clientCert: yup.string().optional(),
+    clientKey: yup.string().optional(),
+  }).default(undefined),
+
   tmpFolder: yup.string().default(`./tmp`),
 
+  logging: yup.object({
+    level: yup.string().oneOf(['debug', 'info', 'warn', 'error']).default('info'),
+    format: yup.string().oneOf(['text', 'json']).default('text'),
+  }).default({}),
+
   sentry: yup.object({
     dsn: yup.string().defined(),
     debug: yup.boolean().default(false),
@@ -66,6 +157,17 @@ export const configurationSchema = yup.object({
     args: stringArray,
   }).default(undefined),
 
+  recording: yup.object({
+    screenshotInterval: yup.number().default(1),
+    retention: yup.number().default(3 * 24 * 3600),
+    maxArtifacts: yup.number().default(100),
+  }).default({}),
+
+  persistence: yup.object({
+    disable: yup.boolean().default(false),
+    path: yup.string().optional(),
+  }).default(undefined),
+
   fileServer: yup.object({
     disable: yup.boolean().default(false),
     root: yup.string().defined(),
@@ -74,34 +176,63 @@ export const configurationSchema = yup.object({
   // constants
   startTime: yup.string().required(),
   version: yup.string().required(),
-}).defined();
+}).defined().test(
+  'node-secret-for-register',
+  // nodes register with node secret, they never send admin token
+  'auth.nodeSecret is required in hub mode when auth.adminToken is set, or else nodes cannot register',
+  function (config) {
+    const isMissing = 'hub' === config?.role && !!config.auth?.adminToken && !config.auth?.nodeSecret;
+    return !isMissing || this.createError({ path: 'auth.nodeSecret' });
+  },
+);
 
 export const sessionDtoSchema = yup.object({
   id: yup.string().defined(),
+  createdAt: yup.number().optional(),
   responseCapabilities: yup.object().optional(),
 }).defined();
 
+export const sessionDetailDtoSchema = yup.object({
+  id: yup.string().defined(),
+  nodeId: yup.string().defined(),
+  driverId: yup.string().defined(),
+  createdAt: yup.number().defined(),
+  lastActivityAt: yup.number().optional(),
+  pid: yup.number().optional(),
+  requestedCapabilities: yup.object().optional(),
+}).defined();
+
 export const driverDtoSchema = yup.object({
   config: driverConfigurationSchema,
   sessions: yup.array(sessionDtoSchema).default([]),
+  lastIdleAt: yup.number().optional(),
+  retiring: yup.boolean().default(false),
 }).defined();
 
 export const nodeDtoSchema = yup.object({
   config: configurationSchema,
   drivers: yup.array(driverDtoSchema).default([]),
+  terminating: yup.boolean().default(false),
+  draining: yup.boolean().default(false),
 }).defined();
 
 export const registerDtoSchema = yup.object({
   registerAs: yup.string().required(),
+  nodes: yup.array(nodeDtoSchema).optional(),
 }).defined();
 
 export interface Configuration extends yup.Asserts<typeof configurationSchema> { };
+export interface AuthConfiguration extends yup.Asserts<typeof authConfigurationSchema> { };
+export interface SlotStrategyConfiguration extends yup.Asserts<typeof slotStrategyConfigurationSchema> { };
 export interface DriverConfiguration extends yup.Asserts<typeof driverConfigurationSchema> { };
 export interface SessionDto extends yup.Asserts<typeof sessionDtoSchema> { };
+export interface SessionDetailDto extends yup.Asserts<typeof sessionDetailDtoSchema> { };
 export interface DriverDto extends yup.Asserts<typeof driverDtoSchema> { };
 export interface NodeDto extends yup.Asserts<typeof nodeDtoSchema> { };
 export interface RegisterDto extends yup.Asserts<typeof registerDtoSchema> { };
 export interface ProvisionTask extends yup.Asserts<typeof provisionTaskSchema> { };
+export interface ProvisionCommand extends yup.Asserts<typeof provisionCommandSchema> { };
+export interface FleetProvisionRequest extends yup.Asserts<typeof fleetProvisionRequestSchema> { };
 
 export interface SessionPathParams {
   sessionId: string,
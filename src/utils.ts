@@ -6,9 +6,8 @@ import { dirname, join } from 'path';
 import { nanoid } from "nanoid";
 import { promisify } from 'util';
 import { basename } from 'path';
-import { exec } from 'shelljs';
-import { ChildProcess } from 'child_process';
-import { ProvisionTask } from './types';
+import _ from 'lodash';
+import { logger } from './logger';
 
 interface IRetryOption {
   max?: number;
@@ -24,7 +23,7 @@ export async function retry<T>(cb: () => Promise<T> | T, option: IRetryOption =
       return await cb();
     } catch (e) {
       if ((!option.condition || option.condition(e)) && i < max - 1) {
-        console.warn(`[warning] ${String(e)} retry...`);
+        logger.warn(`${String(e)} retry...`);
         await Bluebird.delay(interval);
         continue;
       }
@@ -165,12 +164,13 @@ export class Watchdog {
 
   private timestamp: number = 0;
   private timer: NodeJS.Timeout;
+  public lastFeedAt: number = 0;
 
   constructor(private onTimeout: () => any, private timeout: number = 60, interval: number = 5e3) {
     this.feed();
     this.timer = setInterval(() => {
       if (this.timestamp < Date.now()) {
-        console.log('Watchdog timeout!');
+        logger.info('Watchdog timeout!');
         this.stop();
         this.onTimeout();
       }
@@ -178,7 +178,8 @@ export class Watchdog {
   }
 
   feed() {
-    this.timestamp = Date.now() + this.timeout * 1e3;
+    this.lastFeedAt = Date.now();
+    this.timestamp = this.lastFeedAt + this.timeout * 1e3;
   }
 
   stop() {
@@ -202,14 +203,6 @@ export function getDefaultRebootCommand() {
   }
 }
 
-export function logMessage(s: string) {
-  console.log(s);
-}
-
-export function logException(e: Error) {
-  console.error(e);
-}
-
 export const alwaysTrue = () => true;
 export const identity = (i: any) => i;
 
@@ -229,6 +222,10 @@ export function isHttpUrl(pathOrUrl: string) {
   return /^https?:\/\//.test(pathOrUrl)
 }
 
+export function toWebsocketUrl(url: string) {
+  return _.trimEnd(url, '/').replace(/^http/, 'ws');
+}
+
 export async function saveUrlToFile(url: string, path: string) {
   const dir = dirname(path);
   const tmpFile = join(dir, `${nanoid()}.tmp`);
@@ -253,62 +250,10 @@ export function getFileNameFromUrl(url: string) {
 }
 
 
-export interface TaskResult {
-  isSuccess: boolean;
-  results: ProcessResult[];
-}
-
-
-export async function runProvisionTask(task: ProvisionTask, ctx: { downloadFolder: string }): Promise<TaskResult> {
-  let downloadFilePath: string | undefined;
-
-  if (task.download) {
-    downloadFilePath = join(ctx.downloadFolder, getFileNameFromUrl(task.download));
-    console.log(`start to download ${task.download} to ${downloadFilePath}`);
-    await saveUrlToFile(task.download, downloadFilePath);
-  }
-
-  const taskResult: TaskResult = {
-    isSuccess: true,
-    results: [],
-  };
-
-  for (let cmd of task.cmds) {
-    if (downloadFilePath) {
-      cmd = cmd.replace('{download_file_path}', downloadFilePath);
-    }
-    console.log(`start to execute cmd: ${cmd}`);
-    const child = exec(cmd, { async: true });
-    const result = await waitForChildProcessFinish(child);
-
-    taskResult.results.push(result);
-
-    if (result.code > 0) {
-      taskResult.isSuccess = false;
-      break;  // stop task when one of command failed;
-    }
-  }
-  return taskResult;
-}
-
 export interface ProcessResult {
   stdout: string;
   stderr: string;
   code: number;
+  timedOut?: boolean;
 }
 
-async function waitForChildProcessFinish(child: ChildProcess): Promise<ProcessResult> {
-  let stdout: string = '', stderr: string = '';
-  if (child.stdout) {
-    for await (const chunk of child.stdout) {
-      stdout += chunk;
-    }
-  }
-  if (child.stderr) {
-    for await (const chunk of child.stderr) {
-      stderr += chunk;
-    }
-  }
-  const code: number = await new Promise(resolve => child.on('close', resolve));
-  return { stdout, stderr, code, };
-}
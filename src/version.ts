@@ -0,0 +1,100 @@
+import _ from 'lodash';
+
+/**
+ * Version aliases that can be resolved to the highest numeric version
+ * when there is no driver configured with the alias explicitly.
+ */
+const LATEST_ALIASES = ['latest', 'stable'];
+
+type Comparator = (version: number[]) => boolean;
+
+export function parseVersion(version?: string): number[] | undefined {
+  if (!version) return;
+  const v = version.trim();
+  if (!/^\d+(\.\d+)*$/.test(v)) return;
+  return v.split('.').map(Number);
+}
+
+export function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] || 0) - (b[i] || 0);
+    if (diff) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Parse version spec into comparators, return undefined if the spec is an alias.
+ *
+ * Supported formats:
+ *   102, 102.0: match versions with the same prefix, e.g. 102.0.5005.61
+ *   >=100, >100, <=105, <105, =102: compare with versions truncated to the length of spec
+ *   100-105: inclusive range, equal to ">=100 <=105"
+ *   >=100 <105: multiple comparators separated by space should all be satisfied
+ */
+function parseVersionSpec(spec: string): Comparator[] | undefined {
+  const comparators: Comparator[] = [];
+  for (const part of spec.trim().split(/\s+/)) {
+    const range = part.match(/^([\d.]+)-([\d.]+)$/);
+    if (range) {
+      const [lower, upper] = [parseVersion(range[1]), parseVersion(range[2])];
+      if (!lower || !upper) return;
+      comparators.push(v => compareTruncated(v, lower) >= 0 && compareTruncated(v, upper) <= 0);
+      continue;
+    }
+    const comparison = part.match(/^(>=|<=|>|<|=)?([\d.]+)$/);
+    if (comparison) {
+      const target = parseVersion(comparison[2]);
+      if (!target) return;
+      const op = comparison[1] || '=';
+      comparators.push(v => {
+        const diff = compareTruncated(v, target);
+        switch (op) {
+          case '>=': return diff >= 0;
+          case '<=': return diff <= 0;
+          case '>': return diff > 0;
+          case '<': return diff < 0;
+          default: return diff === 0;
+        }
+      });
+      continue;
+    }
+    return;
+  }
+  return comparators;
+}
+
+function compareTruncated(version: number[], target: number[]) {
+  return compareVersions(version.slice(0, target.length), target);
+}
+
+/**
+ * Filter items by requested browser version.
+ * Aliases (latest, stable, beta, etc) are resolved against the versions of the given items.
+ */
+export function filterByVersion<T>(items: T[], getVersion: (item: T) => string | undefined, spec?: string): T[] {
+  if (!spec) return items;
+
+  const comparators = parseVersionSpec(spec);
+  if (comparators) {
+    return items.filter(item => {
+      const version = parseVersion(getVersion(item));
+      return version ? comparators.every(c => c(version)) : false;
+    });
+  }
+
+  const alias = spec.trim().toLowerCase();
+  const aliasMatched = items.filter(item => getVersion(item)?.trim().toLowerCase() === alias);
+  if (aliasMatched.length || !LATEST_ALIASES.includes(alias)) return aliasMatched;
+  return keepHighestVersion(items, getVersion);
+}
+
+/**
+ * Keep items with the highest numeric version, return all items if none of them have a numeric version.
+ */
+export function keepHighestVersion<T>(items: T[], getVersion: (item: T) => string | undefined): T[] {
+  const versions = items.map(item => parseVersion(getVersion(item)));
+  const highest = _.reduce(versions, (max, v) => (v && (!max || compareVersions(v, max) > 0)) ? v : max, undefined as number[] | undefined);
+  if (!highest) return items;
+  return items.filter((_item, i) => versions[i] && 0 === compareVersions(versions[i]!, highest));
+}